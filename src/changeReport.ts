@@ -0,0 +1,68 @@
+/**
+ * "What changed" summary shown after a sync picked up new rule commits.
+ * Renders the notification text and a Markdown report listing the new
+ * commits of each source and the rule files that were added, modified or
+ * removed in the rules folder.
+ */
+import { CommitSummary, MAX_LOGGED_COMMITS } from './gitManager';
+import { SyncPlan } from './syncPlanner';
+
+/** A source whose synced commit moved. */
+export interface SourceUpdate {
+    repoUrl: string;
+    previousCommit: string;
+    commit: string;
+    /** Commits in `previousCommit..commit`, newest first. */
+    commits: CommitSummary[];
+}
+
+/** One-line summary for the notification. */
+export function summarizeUpdate(updates: SourceUpdate[], plan: SyncPlan): string {
+    const commitCount = updates.reduce((count, update) => count + update.commits.length, 0);
+    const commits = commitCount > 0
+        ? `${commitCount}${commitCount >= MAX_LOGGED_COMMITS ? '+' : ''} new commit${commitCount === 1 ? '' : 's'}`
+        : 'a new revision';
+    return `AI rules updated (${commits}): ${plan.added.length} added, ${plan.modified.length} modified, ${plan.removed.length} removed.`;
+}
+
+/**
+ * Markdown report of an update.
+ *
+ * @param folderName Workspace folder name, shown in multi-root workspaces.
+ */
+export function renderChangeReport(updates: SourceUpdate[], plan: SyncPlan, folderName?: string): string {
+    const lines = [`# AI rules update${folderName ? ` – ${folderName}` : ''}`, ''];
+
+    lines.push('## Commits', '');
+    for (const update of updates) {
+        lines.push(`### ${update.repoUrl}`, '', `\`${shortSha(update.previousCommit)}\` → \`${shortSha(update.commit)}\``, '');
+        if (update.commits.length === 0) {
+            lines.push('_The commit history is not available in the cached clone._', '');
+            continue;
+        }
+        for (const commit of update.commits) {
+            lines.push(`- ${escapeMarkdown(commit.subject)} — ${escapeMarkdown(commit.author)} (\`${shortSha(commit.sha)}\`)`);
+        }
+        if (update.commits.length >= MAX_LOGGED_COMMITS) {
+            lines.push(`- _Only the latest ${MAX_LOGGED_COMMITS} commits are listed._`);
+        }
+        lines.push('');
+    }
+
+    lines.push('## Rule files', '');
+    for (const [heading, relPaths] of [['Added', plan.added], ['Modified', plan.modified], ['Removed', plan.removed]] as const) {
+        if (relPaths.length > 0) {
+            lines.push(`### ${heading}`, '', ...relPaths.map(relPath => `- \`${relPath}\``), '');
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function shortSha(sha: string): string {
+    return sha.slice(0, 7);
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
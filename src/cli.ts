@@ -0,0 +1,380 @@
+#!/usr/bin/env node
+/**
+ * Command line interface for syncing rules outside the editor, e.g. in CI, a
+ * devcontainer `postCreateCommand` or a pre-commit hook:
+ *
+ *   ai-rules-sync sync     sync the rules folder of the workspace
+ *   ai-rules-sync status   report the last sync and local edits, offline
+ *   ai-rules-sync diff     list what a sync would change, without changing it
+ *
+ * Settings are the extension's `aiRulesSyncer.*` settings, read from a JSON
+ * file (`.ai-rules-syncer.json` in the workspace folder by default; keys with
+ * or without the `aiRulesSyncer.` prefix) and from flags, which take
+ * precedence. The sync runs the extension's `GitManager` and `FileSyncer` with
+ * the same defaults and shares its cache, so the rules folder ends up
+ * byte-identical to a sync in the editor. Without a prompt, locally edited
+ * files are handled like `localEdits: backup` unless another policy is set.
+ */
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { FileSyncer, SourceCheckout, SyncManifest } from './fileSyncer';
+import { GitManager } from './gitManager';
+import { Logger } from './logger';
+import { getExtensionVersion } from './repoManifest';
+import { RulesConfig, readRulesConfig, resolveSources, validateRulesConfig } from './rulesConfig';
+import { hasChanges, hashContent } from './syncPlanner';
+
+/** Settings file read from the workspace folder when `--config` is not given. */
+export const DEFAULT_CONFIG_FILE = '.ai-rules-syncer.json';
+
+/** The command succeeded; `diff` and `status` found the rules up to date. */
+export const EXIT_OK = 0;
+/** `diff`: a sync would change the rules folder. `status`: not synced yet, settings changed or synced files were edited. */
+export const EXIT_OUT_OF_DATE = 1;
+/** The sync failed, e.g. a repository could not be fetched or the content scan blocked it. */
+export const EXIT_FAILED = 2;
+/** Invalid arguments or configuration. */
+export const EXIT_USAGE = 3;
+
+const COMMANDS = ['sync', 'status', 'diff'] as const;
+type Command = typeof COMMANDS[number];
+
+const SETTINGS_PREFIX = 'aiRulesSyncer.';
+
+/** Flags setting a single setting. */
+const SETTING_FLAGS: Record<string, string> = {
+    'repo-url': 'repoUrl',
+    'branch': 'branch',
+    'ref': 'ref',
+    'teams': 'teamNames',
+    'rules-folder': 'rulesFolderPath',
+    'cache-dir': 'cacheDirPath',
+    'local-edits': 'localEdits'
+};
+
+const USAGE = `Usage: ai-rules-sync <sync|status|diff> [options]
+
+Commands:
+  sync                     Sync the rules folder of the workspace
+  status                   Show the last sync and locally edited files, offline
+  diff                     List the files a sync would add, update or remove
+
+Options:
+  -w, --workspace <dir>    Workspace folder (default: current directory)
+  -c, --config <file>      Settings file (default: ${DEFAULT_CONFIG_FILE} in the workspace)
+      --repo-url <url>     Rules repository URL
+      --branch <name>      Branch to sync
+      --ref <ref>          Commit SHA, tag or semver range to pin
+      --teams <a,b>        Team folders to sync
+      --rules-folder <dir> Rules folder, relative to the workspace
+      --cache-dir <dir>    Cache directory for the clones
+      --local-edits <mode> backup, overwrite or abort for locally edited files
+      --set <key=value>    Any other setting; the value is parsed as JSON when possible
+  -q, --quiet              Only log warnings and errors
+  -v, --verbose            Also log debug messages
+  -h, --help               Show this help
+      --version            Show the version
+
+Exit codes: 0 success or up to date, 1 out of date (diff, status), 2 sync failed,
+3 invalid arguments or configuration.
+`;
+
+type LogLevel = 'trace' | 'debug' | 'info' | 'warning' | 'error';
+
+const LOG_LEVELS: readonly LogLevel[] = ['trace', 'debug', 'info', 'warning', 'error'];
+
+export interface CliOptions {
+    command?: Command;
+    /** Absolute path of the workspace folder. */
+    workspace: string;
+    /** Settings file given with `--config`. */
+    config?: string;
+    /** Settings given as flags, keyed without the `aiRulesSyncer.` prefix. */
+    settings: Record<string, unknown>;
+    logLevel: LogLevel;
+    help: boolean;
+    version: boolean;
+}
+
+/**
+ * Parse the command line.
+ *
+ * @throws On unknown commands, unknown flags and malformed values.
+ */
+export function parseCliArgs(argv: string[], cwd = process.cwd()): CliOptions {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'workspace': { type: 'string', short: 'w' },
+            'config': { type: 'string', short: 'c' },
+            'repo-url': { type: 'string' },
+            'branch': { type: 'string' },
+            'ref': { type: 'string' },
+            'teams': { type: 'string' },
+            'rules-folder': { type: 'string' },
+            'cache-dir': { type: 'string' },
+            'local-edits': { type: 'string' },
+            'set': { type: 'string', multiple: true },
+            'quiet': { type: 'boolean', short: 'q' },
+            'verbose': { type: 'boolean', short: 'v' },
+            'help': { type: 'boolean', short: 'h' },
+            'version': { type: 'boolean' }
+        }
+    });
+
+    const [command, ...extra] = positionals;
+    if (command !== undefined && !COMMANDS.includes(command as Command)) {
+        throw new Error(`Unknown command '${command}'`);
+    }
+    if (extra.length > 0) {
+        throw new Error(`Unexpected argument '${extra[0]}'`);
+    }
+
+    const settings: Record<string, unknown> = {};
+    for (const assignment of values.set ?? []) {
+        const separator = assignment.indexOf('=');
+        if (separator <= 0) {
+            throw new Error(`--set expects <key>=<value>, got '${assignment}'`);
+        }
+        settings[stripPrefix(assignment.slice(0, separator).trim())] = parseSettingValue(assignment.slice(separator + 1));
+    }
+    for (const [flag, setting] of Object.entries(SETTING_FLAGS)) {
+        const value = (values as Record<string, unknown>)[flag];
+        if (typeof value === 'string') {
+            // Paths given on the command line are relative to the current directory
+            settings[setting] = setting === 'cacheDirPath' ? path.resolve(cwd, value) : value;
+        }
+    }
+
+    return {
+        command: command as Command | undefined,
+        workspace: path.resolve(cwd, values.workspace ?? '.'),
+        config: values.config !== undefined ? path.resolve(cwd, values.config) : undefined,
+        settings,
+        logLevel: values.verbose ? 'debug' : values.quiet ? 'warning' : 'info',
+        help: values.help ?? false,
+        version: values.version ?? false
+    };
+}
+
+/**
+ * Build the configuration from the settings file and the flags, with the
+ * extension's defaults for everything else.
+ *
+ * @throws When the settings file cannot be read or the configuration is invalid.
+ */
+export async function loadConfig(options: CliOptions): Promise<RulesConfig> {
+    const configFile = options.config ?? path.join(options.workspace, DEFAULT_CONFIG_FILE);
+    let fileSettings: Record<string, unknown> = {};
+    try {
+        fileSettings = parseSettingsFile(await fs.readFile(configFile, 'utf-8'));
+    } catch (error) {
+        // The default settings file is optional
+        if (options.config || (error as any).code !== 'ENOENT') {
+            throw new Error(`Cannot read ${configFile}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    const settings = { ...fileSettings, ...options.settings };
+    const config = readRulesConfig({
+        get: <T>(key: string, defaultValue: T): T => (settings[key] ?? defaultValue) as T
+    }, options.workspace);
+    // A relative cache directory in the settings file is relative to the workspace
+    config.cacheDirPath = path.resolve(options.workspace, config.cacheDirPath);
+
+    const errors = validateRulesConfig(config);
+    if (errors.length > 0) {
+        throw new Error(`Configuration invalid: ${errors.join(', ')}`);
+    }
+    return config;
+}
+
+/**
+ * Run the command line interface.
+ *
+ * @param write Receives the output; stdout by default.
+ * @returns     The exit code.
+ */
+export async function run(argv: string[], write: (text: string) => void = text => process.stdout.write(text)): Promise<number> {
+    const print = (line: string) => write(`${line}\n`);
+
+    let options: CliOptions;
+    try {
+        options = parseCliArgs(argv);
+    } catch (error) {
+        print(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+    if (options.help) {
+        write(USAGE);
+        return EXIT_OK;
+    }
+    if (options.version) {
+        print(getExtensionVersion());
+        return EXIT_OK;
+    }
+    if (!options.command) {
+        write(USAGE);
+        return EXIT_USAGE;
+    }
+
+    const logger = createConsoleLogger(write, options.logLevel);
+    let config: RulesConfig;
+    try {
+        config = await loadConfig(options);
+    } catch (error) {
+        logger.error(error instanceof Error ? error.message : String(error));
+        return EXIT_USAGE;
+    }
+
+    const gitManager = new GitManager(logger);
+    const fileSyncer = new FileSyncer(logger);
+    try {
+        switch (options.command) {
+            case 'sync':
+                await fileSyncer.syncFiles(await fetchCheckouts(gitManager, config, logger), config);
+                logger.info('Rules sync completed successfully');
+                return EXIT_OK;
+            case 'diff':
+                return await diff(gitManager, fileSyncer, config, logger, print);
+            case 'status':
+                return await status(fileSyncer, config, print);
+        }
+    } catch (error) {
+        logger.error(`${options.command === 'sync' ? 'Sync' : 'Command'} failed`, error);
+        return EXIT_FAILED;
+    } finally {
+        gitManager.dispose();
+    }
+}
+
+/** Clone or update every source of the configuration, like a sync in the editor. */
+async function fetchCheckouts(gitManager: GitManager, config: RulesConfig, logger: Logger): Promise<SourceCheckout[]> {
+    const checkouts: SourceCheckout[] = [];
+    for (const source of resolveSources(config)) {
+        logger.info(`Syncing rules from ${source.repoUrl}`);
+        const { repoPath, commit, resolvedRef } = await gitManager.ensureRepository(source, config);
+        checkouts.push(await gitManager.withSignature({ source, repoPath, commit, resolvedRef }, config));
+    }
+    return checkouts;
+}
+
+/** Print the files a sync would change. */
+async function diff(gitManager: GitManager, fileSyncer: FileSyncer, config: RulesConfig, logger: Logger, print: (line: string) => void): Promise<number> {
+    const { plan, localEdits } = await fileSyncer.previewSync(await fetchCheckouts(gitManager, config, logger), config);
+    const edited = new Set(localEdits);
+    const describe = (relPath: string) => edited.has(relPath) ? `${relPath} (edited locally)` : relPath;
+
+    for (const relPath of plan.added) {
+        print(`A ${relPath}`);
+    }
+    for (const relPath of plan.modified) {
+        print(`M ${describe(relPath)}`);
+    }
+    for (const relPath of plan.removed) {
+        print(`D ${describe(relPath)}`);
+    }
+    if (!hasChanges(plan)) {
+        print('Rules are up to date');
+        return EXIT_OK;
+    }
+    return EXIT_OUT_OF_DATE;
+}
+
+/** Print the last sync recorded in the manifest, without contacting the repositories. */
+async function status(fileSyncer: FileSyncer, config: RulesConfig, print: (line: string) => void): Promise<number> {
+    const manifest = await fileSyncer.readManifest(config.rulesFolderPath);
+    if (!manifest) {
+        print(`No rules synced into ${config.rulesFolderPath}`);
+        return EXIT_OUT_OF_DATE;
+    }
+
+    print(`Rules folder: ${config.rulesFolderPath}`);
+    print(`Last sync: ${manifest.syncedAt}`);
+    for (const source of manifest.sources) {
+        const version = source.resolvedRef ?? (source.branch || 'default branch');
+        const destination = source.destination ? ` → ${source.destination}` : '';
+        const signer = source.signer ? `, signed by ${source.signer}` : '';
+        print(`Source: ${source.repoUrl}${destination} at ${version} (${source.commit?.substring(0, 8) ?? 'commit unknown'}${signer})`);
+    }
+    if (manifest.teams.length > 0) {
+        print(`Teams: ${manifest.teams.join(', ')}`);
+    }
+    const disabled = Object.keys(manifest.disabled ?? {}).length;
+    print(`Files: ${Object.keys(manifest.files).length}${disabled > 0 ? ` (${disabled} disabled by overrides)` : ''}`);
+
+    let upToDate = true;
+    const configured = resolveSources(config).map(source => source.repoUrl);
+    if (configured.join('\n') !== manifest.sources.map(source => source.repoUrl).join('\n')) {
+        print('The configured sources differ from the last sync');
+        upToDate = false;
+    }
+    for (const [relPath, state] of await findChangedFiles(config.rulesFolderPath, manifest)) {
+        print(`${state === 'missing' ? 'Missing' : 'Edited locally'}: ${relPath}`);
+        upToDate = false;
+    }
+    return upToDate ? EXIT_OK : EXIT_OUT_OF_DATE;
+}
+
+/** Synced files that were edited or deleted since the last sync. */
+async function findChangedFiles(rulesPath: string, manifest: SyncManifest): Promise<[string, 'edited' | 'missing'][]> {
+    const changed: [string, 'edited' | 'missing'][] = [];
+    for (const [relPath, file] of Object.entries(manifest.files).sort(([a], [b]) => a.localeCompare(b))) {
+        let content: Buffer;
+        try {
+            content = await fs.readFile(path.join(rulesPath, relPath));
+        } catch {
+            changed.push([relPath, 'missing']);
+            continue;
+        }
+        if (hashContent(content) !== file.hash) {
+            changed.push([relPath, 'edited']);
+        }
+    }
+    return changed;
+}
+
+/**
+ * Read a settings file: a JSON object of setting values, keyed with or
+ * without the `aiRulesSyncer.` prefix as in `settings.json`.
+ */
+function parseSettingsFile(text: string): Record<string, unknown> {
+    const raw: unknown = JSON.parse(text);
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('must contain a JSON object');
+    }
+    return Object.fromEntries(Object.entries(raw).map(([key, value]) => [stripPrefix(key), value]));
+}
+
+function stripPrefix(key: string): string {
+    return key.startsWith(SETTINGS_PREFIX) ? key.slice(SETTINGS_PREFIX.length) : key;
+}
+
+/** A `--set` value: JSON when it parses, e.g. `true` or `["a","b"]`, otherwise the text itself. */
+function parseSettingValue(value: string): unknown {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+}
+
+/** Log lines in the format of the extension's output channel, without the timestamp. */
+function createConsoleLogger(write: (text: string) => void, minLevel: LogLevel): Logger {
+    const log = (level: LogLevel) => (message: string | Error, ...args: unknown[]) => {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) {
+            return;
+        }
+        const details = [message, ...args].map(part => part instanceof Error ? part.message : String(part));
+        write(`[${level}] ${details.join(' ')}\n`);
+    };
+    return { trace: log('trace'), debug: log('debug'), info: log('info'), warn: log('warning'), error: log('error') };
+}
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
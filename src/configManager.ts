@@ -1,163 +1,83 @@
 /**
  * Configuration manager for the AI Rules Syncer extension.
- * Handles reading, validating, and processing VS Code settings for the extension,
- * including repository URLs, team configurations, and sync preferences.
+ * Reads the VS Code settings into a {@link RulesConfig} (normalised and
+ * validated by `rulesConfig.ts`) and updates settings on behalf of the user.
  */
 import * as vscode from 'vscode';
-import * as path from 'path';
-import * as os from 'os';
-
-export interface RulesConfig {
-    repoUrl: string;
-    teamNames: string[];
-    rulesFolderPath: string;
-    cacheDirPath: string;
-    syncIntervalMinutes: number;
-    branch: string;
-}
+import {
+    RuleSource, RulesConfig, getDefaultCacheDir, normalizeNames, readRulesConfig, resolveSources, validateRulesConfig
+} from './rulesConfig';
 
 export class ConfigManager {
     /**
      * Read the current VS Code settings, apply normalisation rules and return
      * a {@link RulesConfig} object ready for consumption by other services.
+     *
+     * @param folder Workspace folder whose resource-scoped settings apply;
+     *               defaults to the first workspace folder.
      */
-    public getConfig(): RulesConfig {
-        const config = vscode.workspace.getConfiguration('aiRulesSyncer');
-
-        // Handle teamNames - string or array of strings
-        const rawTeamNames = config.get<string | string[]>('teamNames', '');
-        const teamNames = Array.isArray(rawTeamNames)
-            ? rawTeamNames.map(s => s.trim()).filter(Boolean)
-            : rawTeamNames.split(',').map(s => s.trim()).filter(Boolean);
-
-        // Get cache directory with OS-specific defaults
-        const cacheDirPath = config.get<string>('cacheDirPath') || this.getDefaultCacheDir();
-
-        // Get rules folder path relative to workspace
-        const rulesFolderSetting = config.get<string>('rulesFolderPath', '.cursor/rules/remote');
-
-        // Get branch - use empty string if not set (indicates using repo default)
-        const branch = config.get<string>('branch', '');
-
-        return {
-            repoUrl: config.get<string>('repoUrl', ''),
-            teamNames,
-            rulesFolderPath: this.resolveRulesFolderPath(rulesFolderSetting),
-            cacheDirPath,
-            syncIntervalMinutes: config.get<number>('syncIntervalMinutes', 0),
-            branch
-        };
+    public getConfig(folder?: vscode.WorkspaceFolder): RulesConfig {
+        const workspaceFolder = folder ?? vscode.workspace?.workspaceFolders?.[0];
+        const config = vscode.workspace.getConfiguration('aiRulesSyncer', workspaceFolder?.uri);
+        return readRulesConfig(config, workspaceFolder?.uri.fsPath, {
+            get: (key, defaultValue) => this.getRepositorySetting(config, key, defaultValue)
+        });
     }
 
     /**
-     * Determine the default location for the local cache directory based on
-     * the host operating system.
-     *
-     * The method mirrors the recommended cache locations for each platform
-     * (e.g. `~/.cache` on Linux, `~/Library/Caches` on macOS, and
-     * `%LOCALAPPDATA%` on Windows).
+     * Whether the `repoUrl` or `sources` set in an untrusted workspace are
+     * being ignored (see {@link getRepositorySetting}).
      */
-    private getDefaultCacheDir(): string {
-        const platform = os.platform();
-        const homeDir = os.homedir();
-
-        switch (platform) {
-            case 'linux':
-                return path.join(homeDir, '.cache');
-            case 'darwin': // macOS
-                return path.join(homeDir, 'Library', 'Caches');
-            case 'win32': // Windows
-                const localAppData = process.env.LOCALAPPDATA || path.join(homeDir, 'AppData', 'Local');
-                return path.join(localAppData, 'ai-coding-rules');
-            default:
-                return path.join(homeDir, '.ai-coding-rules-cache');
+    public isWorkspaceRepoUrlIgnored(folder?: vscode.WorkspaceFolder): boolean {
+        const config = vscode.workspace.getConfiguration('aiRulesSyncer', folder?.uri);
+        if (!this.ignoresWorkspaceRepositories(config)) {
+            return false;
         }
+        return ['repoUrl', 'sources'].some(key => {
+            const inspected = config.inspect(key);
+            return inspected?.workspaceValue !== undefined || inspected?.workspaceFolderValue !== undefined;
+        });
     }
 
     /**
-     * Resolve the rules folder path to an absolute path.
-     *
-     * @param configuredPath  The path provided by the user (absolute or
-     *                        workspace-relative).
-     * @throws If no workspace folder is open when a relative path is given.
+     * Read a setting that chooses the repositories to sync. A settings file
+     * committed to an untrusted project must not point the extension at a
+     * repository, so only the user value counts there unless
+     * `ignoreUntrustedWorkspaceRepoUrl` is turned off.
      */
-    private resolveRulesFolderPath(configuredPath: string): string {
-        // If it's already absolute, use as-is
-        if (path.isAbsolute(configuredPath)) {
-            return configuredPath;
-        }
-
-        // Resolve relative to workspace folder
-        const workspaceFolder = vscode.workspace?.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            throw new Error('No workspace folder found. Please open a workspace to use AI rules syncer')
+    private getRepositorySetting<T>(config: vscode.WorkspaceConfiguration, key: string, defaultValue: T): T {
+        if (this.ignoresWorkspaceRepositories(config)) {
+            return config.inspect<T>(key)?.globalValue ?? defaultValue;
         }
+        return config.get<T>(key, defaultValue);
+    }
 
-        return path.join(workspaceFolder.uri.fsPath, configuredPath);
+    private ignoresWorkspaceRepositories(config: vscode.WorkspaceConfiguration): boolean {
+        return vscode.workspace.isTrusted === false && config.get<boolean>('ignoreUntrustedWorkspaceRepoUrl', true);
     }
 
-    public isConfigured(): boolean {
-        const config = this.getConfig();
-        const repoUrl = config.repoUrl.trim();
-        if (repoUrl.length === 0) {
+    public isConfigured(folder?: vscode.WorkspaceFolder): boolean {
+        const sources = resolveSources(this.getConfig(folder));
+        if (sources.length === 0) {
             return false;
         }
 
         // Basic URL validation
         const urlPattern = /^(https?:\/\/|git@)/;
-        return urlPattern.test(repoUrl);
+        return sources.every(source => urlPattern.test(source.repoUrl));
     }
 
     /**
      * Validate a {@link RulesConfig} instance and return an array of
      * human-readable error messages for any fields that fail validation.
+     * Without `workspaceFolderPath` in the config, the rules folder is checked
+     * against the first workspace folder.
      *
      * @param config The configuration object to validate.
      * @returns      An array of error strings; empty when the config is valid.
      */
     public validateConfig(config: RulesConfig): string[] {
-        const errors: string[] = [];
-
-        if (!config.repoUrl.trim()) {
-            errors.push('Repository URL is required');
-        } else {
-            // Basic URL validation
-            const urlPattern = /^(https?:\/\/|git@)/;
-            if (!urlPattern.test(config.repoUrl)) {
-                errors.push('Repository URL must be a valid HTTPS or SSH URL');
-            }
-        }
-
-        if (config.syncIntervalMinutes < 0) {
-            errors.push('Sync interval must be zero or positive');
-        }
-
-        // Safety guard: path must be a subfolder inside the workspace (not root, not outside)
-        const workspaceFolder = vscode.workspace?.workspaceFolders?.[0];
-        if (workspaceFolder) {
-            try {
-                const workspaceRootAbs = path.resolve(workspaceFolder.uri.fsPath);
-                const rulesPathAbs = path.resolve(config.rulesFolderPath);
-                const relativeFromRoot = path.relative(workspaceRootAbs, rulesPathAbs);
-
-                const isInsideWorkspace = relativeFromRoot !== '' &&
-                    !relativeFromRoot.startsWith('..') &&
-                    !path.isAbsolute(relativeFromRoot);
-
-                if (!isInsideWorkspace) {
-                    errors.push('Rules folder path must be inside the workspace');
-                } else {
-                    const depth = relativeFromRoot.split(path.sep).filter(Boolean).length;
-                    if (depth < 1) {
-                        errors.push('Rules folder path must not be the workspace root; choose a subfolder');
-                    }
-                }
-            } catch {
-                // ignore resolution errors here; downstream operations will surface them
-            }
-        }
-
-        return errors;
+        return validateRulesConfig(config, config.workspaceFolderPath ?? vscode.workspace?.workspaceFolders?.[0]?.uri.fsPath);
     }
 
     /**
@@ -165,11 +85,11 @@ export class ConfigManager {
      * missing.  The result can be surfaced to the user in a settings UI or
      * an information message.
      */
-    public getRequiredConfigurationSteps(): { setting: string; description: string; current: string }[] {
-        const config = this.getConfig();
+    public getRequiredConfigurationSteps(folder?: vscode.WorkspaceFolder): { setting: string; description: string; current: string }[] {
+        const config = this.getConfig(folder);
         const steps = [];
 
-        if (!config.repoUrl.trim()) {
+        if (resolveSources(config).length === 0) {
             steps.push({
                 setting: 'aiRulesSyncer.repoUrl',
                 description: 'Git repository URL containing your AI rules',
@@ -189,7 +109,7 @@ export class ConfigManager {
 
         // Set cache directory default if not configured
         if (!config.get<string>('cacheDirPath')) {
-            const defaultCacheDir = this.getDefaultCacheDir();
+            const defaultCacheDir = getDefaultCacheDir();
             await config.update('cacheDirPath', defaultCacheDir, vscode.ConfigurationTarget.Global);
         }
     }
@@ -220,19 +140,63 @@ export class ConfigManager {
         }
     }
 
+    /**
+     * Store the selected optional rules for a workspace folder. In a
+     * multi-root workspace the selection is written to the folder settings.
+     */
+    public async setSelectedRules(selectedRules: string[], folder: vscode.WorkspaceFolder): Promise<void> {
+        const config = vscode.workspace.getConfiguration('aiRulesSyncer', folder.uri);
+        await config.update('selectedRules', selectedRules, this.getFolderTarget());
+    }
+
+    /**
+     * Stop syncing a repository path into a workspace folder. The pattern is
+     * added to the repository's `sources` entry when that entry has its own
+     * `exclude` list, otherwise to the inherited top-level `exclude`.
+     *
+     * @param pattern Repository-relative path or glob, e.g. `general/tone.mdc`.
+     */
+    public async addExcludePattern(repoUrl: string, pattern: string, folder: vscode.WorkspaceFolder): Promise<void> {
+        const config = vscode.workspace.getConfiguration('aiRulesSyncer', folder.uri);
+        const target = this.getFolderTarget();
+
+        const rawSources = config.get<Partial<RuleSource>[]>('sources', []) ?? [];
+        const index = rawSources.findIndex(raw => (raw.repoUrl ?? '').trim() === repoUrl && raw.exclude !== undefined);
+        if (index !== -1) {
+            const sources = rawSources.map((raw, i) => i === index
+                ? { ...raw, exclude: [...new Set([...normalizeNames(raw.exclude), pattern])] }
+                : raw);
+            await config.update('sources', sources, target);
+            return;
+        }
+
+        const exclude = normalizeNames(config.get<string[]>('exclude', []));
+        if (!exclude.includes(pattern)) {
+            await config.update('exclude', [...exclude, pattern], target);
+        }
+    }
+
+    /** Settings written for a folder go to the folder settings in multi-root workspaces. */
+    private getFolderTarget(): vscode.ConfigurationTarget {
+        return (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+            ? vscode.ConfigurationTarget.WorkspaceFolder
+            : vscode.ConfigurationTarget.Workspace;
+    }
+
     /**
      * Compute the *effective* configuration after defaults have been applied
      * and return it in a presentation-friendly structure.
      */
-    public getEffectiveConfiguration(): { setting: string; value: string; isDefault: boolean }[] {
-        const rawConfig = vscode.workspace.getConfiguration('aiRulesSyncer');
-        const computedConfig = this.getConfig();
+    public getEffectiveConfiguration(folder?: vscode.WorkspaceFolder): { setting: string; value: string; isDefault: boolean }[] {
+        const rawConfig = vscode.workspace.getConfiguration('aiRulesSyncer', folder?.uri);
+        const computedConfig = this.getConfig(folder);
+        const rulesFolderInspect = rawConfig.inspect<string>('rulesFolderPath');
 
         return [
             {
                 setting: 'rulesFolderPath',
                 value: computedConfig.rulesFolderPath,
-                isDefault: !rawConfig.inspect<string>('rulesFolderPath')?.workspaceValue
+                isDefault: !(rulesFolderInspect?.workspaceFolderValue || rulesFolderInspect?.workspaceValue)
             },
             {
                 setting: 'cacheDirPath',
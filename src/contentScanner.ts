@@ -0,0 +1,156 @@
+/**
+ * Content scanning of incoming rule files.
+ * Rule files are copied verbatim into the assistant's context, so text a
+ * reviewer cannot see is an attack vector: zero-width and tag characters,
+ * bidi overrides that reorder what is displayed, letters from other scripts
+ * that look Latin, encoded payloads and HTML comments that are hidden when
+ * Markdown is rendered. Configurable patterns catch known injection phrases.
+ */
+
+export type FindingKind = 'invisible-unicode' | 'bidi-control' | 'confusable' | 'encoded-payload' | 'html-comment' | 'pattern';
+
+export interface ScanFinding {
+    /** 1-based line. */
+    line: number;
+    /** 1-based column, in UTF-16 code units like VS Code positions. */
+    column: number;
+    /** Length of the flagged text in UTF-16 code units. */
+    length: number;
+    kind: FindingKind;
+    message: string;
+}
+
+/** Base64-like runs at least this long are reported; hashes stay below. */
+const MIN_BASE64_LENGTH = 80;
+
+const CHARACTER_NAMES: Record<number, string> = {
+    0x00AD: 'soft hyphen',
+    0x200B: 'zero width space',
+    0x200C: 'zero width non-joiner',
+    0x200D: 'zero width joiner',
+    0x2060: 'word joiner',
+    0xFEFF: 'zero width no-break space',
+    0x202A: 'left-to-right embedding',
+    0x202B: 'right-to-left embedding',
+    0x202C: 'pop directional formatting',
+    0x202D: 'left-to-right override',
+    0x202E: 'right-to-left override',
+    0x2066: 'left-to-right isolate',
+    0x2067: 'right-to-left isolate',
+    0x2068: 'first strong isolate',
+    0x2069: 'pop directional isolate',
+    0x200E: 'left-to-right mark',
+    0x200F: 'right-to-left mark',
+    0x061C: 'arabic letter mark'
+};
+
+const INVISIBLE = /[\u00AD\u034F\u115F\u1160\u17B4\u17B5\u180E\u200B-\u200D\u2060-\u2064\u206A-\u206F\u3164\uFE00-\uFE0F\uFEFF\uFFA0\u{E0100}-\u{E01EF}]+/gu;
+const TAG_CHARACTERS = /[\u{E0000}-\u{E007F}]+/gu;
+const BIDI_CONTROLS = /[\u202A-\u202E\u2066-\u2069\u200E\u200F\u061C]/g;
+const WORDS = /[\p{L}\p{M}]+/gu;
+const LOOKALIKE_SCRIPTS = [['Cyrillic', /\p{Script=Cyrillic}/u], ['Greek', /\p{Script=Greek}/u], ['Armenian', /\p{Script=Armenian}/u]] as const;
+const BASE64_RUN = new RegExp(`[A-Za-z0-9+/]{${MIN_BASE64_LENGTH},}={0,2}`, 'g');
+const ESCAPED_BYTES = /(?:\\x[0-9a-fA-F]{2}){8,}|(?:\\u[0-9a-fA-F]{4}){6,}|(?:%[0-9a-fA-F]{2}){8,}/g;
+const DATA_URI = /data:[\w.+-]+\/[\w.+-]+;base64,/g;
+const HTML_COMMENT = /<!--[\s\S]*?(?:-->|$)/g;
+
+/**
+ * Scan the text of a rule file.
+ *
+ * @param patterns Case-insensitive regular expressions to report, e.g.
+ *                 injection phrases; invalid ones are ignored (see
+ *                 {@link validateScanPattern}).
+ */
+export function scanContent(content: string, patterns: string[] = []): ScanFinding[] {
+    const lineStarts = [0];
+    for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+        lineStarts.push(index + 1);
+    }
+    const findings: ScanFinding[] = [];
+    const report = (index: number, length: number, kind: FindingKind, message: string) => {
+        let line = lineStarts.length - 1;
+        while (lineStarts[line]! > index) {
+            line--;
+        }
+        findings.push({ line: line + 1, column: index - lineStarts[line]! + 1, length, kind, message });
+    };
+
+    for (const match of content.matchAll(INVISIBLE)) {
+        // A byte order mark is expected at the very start
+        if (match.index === 0 && match[0] === '\uFEFF') {
+            continue;
+        }
+        report(match.index!, match[0].length, 'invisible-unicode', `Invisible character ${describeCharacters(match[0])}`);
+    }
+
+    for (const match of content.matchAll(TAG_CHARACTERS)) {
+        const hidden = [...match[0]].map(char => String.fromCodePoint(char.codePointAt(0)! - 0xE0000)).join('').replace(/[^\x20-\x7E]/g, '');
+        report(match.index!, match[0].length, 'invisible-unicode', `Unicode tag characters hide text: "${hidden}"`);
+    }
+
+    for (const match of content.matchAll(BIDI_CONTROLS)) {
+        report(match.index!, match[0].length, 'bidi-control', `Bidirectional control character ${describeCharacters(match[0])} can change how the text is displayed`);
+    }
+
+    for (const match of content.matchAll(WORDS)) {
+        if (!/\p{Script=Latin}/u.test(match[0])) {
+            continue;
+        }
+        const script = LOOKALIKE_SCRIPTS.find(([, pattern]) => pattern.test(match[0]));
+        if (script) {
+            report(match.index!, match[0].length, 'confusable', `"${match[0]}" mixes Latin and ${script[0]} letters that look alike`);
+        }
+    }
+
+    for (const match of content.matchAll(BASE64_RUN)) {
+        report(match.index!, match[0].length, 'encoded-payload', `Base64-like text of ${match[0].length} characters may hide an encoded payload`);
+    }
+    for (const match of content.matchAll(ESCAPED_BYTES)) {
+        report(match.index!, match[0].length, 'encoded-payload', 'Escaped byte sequence may hide an encoded payload');
+    }
+    for (const match of content.matchAll(DATA_URI)) {
+        report(match.index!, match[0].length, 'encoded-payload', 'Embedded base64 data URI');
+    }
+
+    for (const match of content.matchAll(HTML_COMMENT)) {
+        report(match.index!, Math.min(match[0].indexOf('\n') === -1 ? match[0].length : match[0].indexOf('\n'), match[0].length),
+            'html-comment', 'HTML comment is hidden when the rule is rendered but read by the assistant');
+    }
+
+    for (const pattern of patterns) {
+        if (validateScanPattern(pattern)) {
+            continue;
+        }
+        for (const match of content.matchAll(new RegExp(pattern, 'giu'))) {
+            if (match[0].length > 0) {
+                report(match.index!, match[0].length, 'pattern', `Matches content pattern '${pattern}'`);
+            }
+        }
+    }
+
+    return findings.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Check a `contentScanPatterns` entry.
+ *
+ * @returns A description of the problem, or `undefined` when the pattern is valid.
+ */
+export function validateScanPattern(pattern: string): string | undefined {
+    try {
+        new RegExp(pattern, 'giu');
+        return undefined;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/** `U+200B (zero width space)`, or a list of code points for runs. */
+function describeCharacters(text: string): string {
+    const codePoints = [...new Set([...text].map(char => char.codePointAt(0)!))];
+    return codePoints.slice(0, 3).map(codePoint => {
+        const hex = `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
+        const name = CHARACTER_NAMES[codePoint];
+        return name ? `${hex} (${name})` : hex;
+    }).join(', ') + (codePoints.length > 3 ? ', …' : '');
+}
@@ -4,6 +4,8 @@
  */
 import * as vscode from 'vscode';
 import { RulesManager } from './rulesManager';
+import { RuleNode } from './rulesTreeProvider';
+import { STATUS_MENU_COMMAND } from './statusBar';
 
 let rulesManager: RulesManager | undefined;
 
@@ -55,7 +57,82 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    context.subscriptions.push(refreshCommand, configureCommand, openSettingsCommand, showConfigCommand);
+    const selectRulesCommand = vscode.commands.registerCommand('aiRulesSyncer.selectRules', async () => {
+        try {
+            await rulesManager?.selectOptionalRules();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to select rules: ${message}`);
+        }
+    });
+
+    const showEffectiveRulesCommand = vscode.commands.registerCommand('aiRulesSyncer.showEffectiveRules', async () => {
+        try {
+            await rulesManager?.showEffectiveRules();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to preview rules: ${message}`);
+        }
+    });
+
+    const openRuleCommand = vscode.commands.registerCommand('aiRulesSyncer.openRule', async (node: RuleNode) => {
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(node.fullPath));
+    });
+
+    const openUpstreamRuleCommand = vscode.commands.registerCommand('aiRulesSyncer.openUpstreamRule', async (node: RuleNode) => {
+        try {
+            await rulesManager?.openUpstreamRule(node);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to open upstream rule: ${message}`);
+        }
+    });
+
+    const excludeRuleCommand = vscode.commands.registerCommand('aiRulesSyncer.excludeRule', async (node: RuleNode) => {
+        try {
+            await rulesManager?.excludeRule(node);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to exclude rule: ${message}`);
+        }
+    });
+
+    const showCachedRepositoriesCommand = vscode.commands.registerCommand('aiRulesSyncer.showCachedRepositories', async () => {
+        try {
+            await rulesManager?.showCachedRepositories();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to manage cached repositories: ${message}`);
+        }
+    });
+
+    const clearCacheCommand = vscode.commands.registerCommand('aiRulesSyncer.clearCache', async () => {
+        try {
+            await rulesManager?.clearCache();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to clear cache: ${message}`);
+        }
+    });
+
+    const lintFolderCommand = vscode.commands.registerCommand('aiRulesSyncer.lintFolder', async () => {
+        try {
+            await rulesManager?.lintFolder();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to lint rules: ${message}`);
+        }
+    });
+
+    const statusMenuCommand = vscode.commands.registerCommand(STATUS_MENU_COMMAND, async () => {
+        await rulesManager?.showStatusMenu();
+    });
+
+    context.subscriptions.push(
+        statusMenuCommand, refreshCommand, configureCommand, openSettingsCommand, showConfigCommand, selectRulesCommand, showEffectiveRulesCommand,
+        openRuleCommand, openUpstreamRuleCommand, excludeRuleCommand, showCachedRepositoriesCommand, clearCacheCommand,
+        lintFolderCommand
+    );
 
     // Perform initial setup on activation (includes configuration check)
     (async () => {
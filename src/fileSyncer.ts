@@ -1,32 +1,313 @@
 /**
  * File synchronization service for AI rules.
  * Handles copying rule files from Git repository to workspace rules folder,
- * replacing the entire contents of the local rules folder on each sync.
- * Copy logic:
- *   1. Iterate top-level entries in repo. For every directory that is not hidden (name starts with '.'): 
+ * mirroring the repository state incrementally: files are compared by content
+ * hash, only changed files are written and only files that disappeared
+ * upstream are deleted.
+ * Copy logic (when the repository has no `ai-rules.json` declaring its categories):
+ *   1. Iterate top-level entries in repo. For every directory that is not hidden (name starts with '.'):
  *        • If the directory name starts with 'team' (e.g., 'team', 'teams'), copy only configured team sub-folders under that directory.
+ *        • If the directory is one of the `optionalCategories` (e.g., 'role'), copy only the entries
+ *          listed in `selectedRules` as '<category>/<name>' (a file without '.mdc' or a subfolder).
  *        • Otherwise copy the directory recursively in full (all file types).
  *   2. Top-level files (non-directories) are ignored for now (not expected).
+ *   3. Each source's `include`/`exclude` globs then filter the selected files
+ *      by their path inside the repository.
+ *   4. With `languageDetection`, `.mdc` rules under directories starting with
+ *      'language' are skipped when their `globs` match no file in the workspace.
+ * A repository manifest replaces the folder-name conventions with declared
+ * `always`, `opt-in`, `team` and `language` categories and their destinations.
+ * With several sources, each is copied in order into its destination subfolder;
+ * a later source overwrites files provided by an earlier one.
+ * A manifest in the rules folder records the synced sources, commits, teams and
+ * file hashes. When commits and settings are unchanged the file work is
+ * skipped; managed files whose hash differs from the manifest were edited
+ * locally and are handled per the `localEdits` policy before being replaced.
+ * Changes are staged next to the rules folder and swapped in with rollback,
+ * so a failed sync leaves the previous rules in place.
+ * Enabled `outputTargets` are then rendered from the synced `.mdc` rules into
+ * the workspace folder; generated paths are recorded in the manifest so
+ * outputs of disabled targets are cleaned up.
+ * With `signatureVerification` set to `require`, checkouts whose commit is not
+ * signed by an allowed signer are refused before anything is planned, so the
+ * rules folder keeps the last verified revision.
+ * Incoming text files are scanned for hidden Unicode, encoded payloads and
+ * the `contentScanPatterns`; findings are logged and reported to the caller,
+ * and with `contentScanning` set to `strict` they block the sync.
+ * The workspace's `overridesFile` is applied to the collected files before
+ * they are scanned: rules can be disabled, replaced by a local file or have
+ * project-specific text appended. The manifest marks overridden and disabled
+ * rules.
+ * With `templating`, Markdown rules are then rendered with project variables
+ * (see `templating.ts`); unresolved variables are logged and reported to the
+ * caller.
+ * With `ruleLinting`, the resulting rule set is linted (see `ruleLinter.ts`);
+ * lint issues are logged and reported but never block the sync.
  */
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { RulesConfig } from './configManager';
-import * as vscode from 'vscode';
+import { LocalEditPolicy, RuleSource, RulesConfig } from './rulesConfig';
+import { getRuleMetadata, parseFrontmatter } from './frontmatter';
+import { matchesAnyPath, matchesPathOrParent } from './glob';
+import { REPO_MANIFEST_FILE, RepoCategory, checkExtensionVersion, inferCategoryType, readRepoManifest } from './repoManifest';
+import { BLOCK_BEGIN, GENERATED_FILE_MARKER, RuleDocument, mergeManagedBlock, renderOutputs } from './outputAdapters';
+import { SyncPlan, hashContent, hasChanges, planSync } from './syncPlanner';
+import { SignatureCheck } from './signatures';
+import { ScanFinding, scanContent } from './contentScanner';
+import { OverrideKind, RuleOverrides, readOverrides } from './overrides';
+import { DEFAULT_MAX_RULE_SIZE_KB, LintIssue, lintRules } from './ruleLinter';
+import { TEMPLATE_FILE_EXTENSIONS, UnresolvedVariable, getPackageVariables, renderTemplate } from './templating';
+import { scanWorkspace } from './workspaceScanner';
+import { Logger } from './logger';
+
+/** Name of the sync manifest kept at the root of the rules folder. */
+export const SYNC_MANIFEST_FILE = '.ai-rules-sync.json';
+
+/** Layout of the backup folder used to roll back an interrupted sync. */
+const BACKUP_FILES_DIR = 'files';
+const BACKUP_JOURNAL_FILE = 'journal.json';
+
+/** A rule source together with the location of its cached clone. */
+export interface SourceCheckout {
+    source: RuleSource;
+    repoPath: string;
+    /** Commit checked out in `repoPath`, when known. */
+    commit?: string;
+    /** Tag or commit a pinned `ref` resolved to. */
+    resolvedRef?: string;
+    /** Signature check of `commit`; absent when `signatureVerification` is off. */
+    signature?: SignatureCheck;
+}
+
+/** What to do with managed files that were edited locally. */
+export type LocalEditAction = Exclude<LocalEditPolicy, 'prompt'>;
+
+export interface SyncOptions {
+    /**
+     * Asked when the `localEdits` policy is `prompt` and managed files were
+     * edited locally. Without a handler, edited files are backed up.
+     */
+    onLocalEdits?: (relPaths: string[]) => Promise<LocalEditAction>;
+    /** Plan and log the file operations without executing them. */
+    dryRun?: boolean;
+    /**
+     * Receives the content scan findings of the incoming rules, also when
+     * there are none; `blocked` is set when they stopped the sync.
+     */
+    onContentFindings?: (findings: ContentFinding[], blocked: boolean) => void;
+    /**
+     * Receives the unresolved template variables of the incoming rules, also
+     * when there are none.
+     */
+    onTemplateProblems?: (problems: TemplateProblem[]) => void;
+    /**
+     * Receives the lint issues of the incoming rules, also when there are
+     * none; paths are relative to the rules folder.
+     */
+    onLintIssues?: (issues: LintIssue[]) => void;
+}
+
+/** A content scan finding in an incoming rule file. */
+export interface ContentFinding extends ScanFinding {
+    /** Destination path relative to the rules folder. */
+    relPath: string;
+    /** The file in the cached clone it is synced from. */
+    sourcePath: string;
+    repoUrl: string;
+}
+
+/** An unresolved template variable in an incoming rule file. */
+export interface TemplateProblem extends UnresolvedVariable {
+    /** Destination path relative to the rules folder. */
+    relPath: string;
+    repoUrl: string;
+}
+
+/** What a sync would change in the rules folder, without changing it. */
+export interface SyncPreview {
+    plan: SyncPlan;
+    /** New content of every added or modified file. */
+    contents: Map<string, Buffer>;
+    /** Files the sync would replace or delete although they were edited locally. */
+    localEdits: string[];
+}
+
+/** An entry of an optional category that can be selected. */
+export interface OptionalRule {
+    /** Selection id, `<category>/<name>`. */
+    id: string;
+    /** `description` frontmatter of a rule file. */
+    description: string;
+    /** Repository providing the rule. */
+    repoUrl: string;
+}
+
+/** A file selected for the rules folder, keyed by its relative destination path. */
+interface DesiredFile {
+    sourcePath: string;
+    repoUrl: string;
+    /** Path of the file inside its repository. */
+    repoPath: string;
+    /** Path of the repository category the file belongs to. */
+    category: string;
+    content: Buffer;
+    hash: string;
+    /** Local overrides applied to the file. */
+    overrides?: OverrideKind[];
+}
+
+/** The workspace's overrides with the content of their replacement files. */
+interface LoadedOverrides {
+    /** Overrides file relative to the workspace folder, for messages. */
+    file: string;
+    rules: RuleOverrides;
+    /** Rules-folder-relative path → replacement file and its content. */
+    replacements: Map<string, { sourcePath: string; content: Buffer }>;
+}
+
+/** Everything decided before a sync touches the disk; shared by real and dry runs. */
+interface PreparedSync {
+    fingerprint?: string;
+    manifest?: SyncManifest;
+    desired: Map<string, DesiredFile>;
+    /** Synced files left out by the `disable` overrides. */
+    disabled: Map<string, DesiredFile>;
+    plan: SyncPlan;
+    localEdits: string[];
+}
+
+/** A file written by the last sync. */
+export interface ManifestFile {
+    hash: string;
+    /** Repository the file came from. */
+    source: string;
+    /** Path of the file inside that repository. */
+    path: string;
+    /** Repository category the file was selected through, e.g. `general` or `team`. */
+    category?: string;
+    /** Local overrides applied to the file. */
+    overrides?: OverrideKind[];
+}
+
+/**
+ * Record of the last sync, written to {@link SYNC_MANIFEST_FILE}. Serves as
+ * sync state, baseline for local edit detection and audit trail of the rule
+ * revision a project uses. Paths are relative to the rules folder.
+ */
+export interface SyncManifest {
+    version: 1;
+    syncedAt: string;
+    /** Hash of the synced commits and the settings that select files; absent when a commit was unknown. */
+    fingerprint?: string;
+    sources: { repoUrl: string; branch: string; destination: string; ref?: string; resolvedRef?: string; commit?: string; signer?: string }[];
+    teams: string[];
+    files: Record<string, ManifestFile>;
+    /** Rules the workspace's overrides disabled; not in the rules folder. */
+    disabled?: Record<string, ManifestFile>;
+    /** Files generated by output targets, relative to the workspace folder. */
+    outputs?: string[];
+}
 
 export class FileSyncer {
-    constructor(private logger: vscode.LogOutputChannel) { }
+    constructor(private logger: Logger) { }
 
-    public async syncFiles(repoPath: string, config: RulesConfig): Promise<void> {
-        this.logger.info(`Starting file sync from ${repoPath} to ${config.rulesFolderPath}`);
+    /**
+     * Bring `rulesFolderPath` in line with the merged rules of all checkouts.
+     * Checkouts are applied in order, so later ones take precedence.
+     *
+     * @returns The executed (or, with `dryRun`, planned) plan; empty when the
+     *          sync was skipped because commits and settings match the last sync.
+     */
+    public async syncFiles(checkouts: SourceCheckout[], config: RulesConfig, options: SyncOptions = {}): Promise<SyncPlan> {
+        this.logger.info(`Starting ${options.dryRun ? 'dry run of ' : ''}file sync from ${checkouts.map(c => c.repoPath).join(', ')} to ${config.rulesFolderPath}`);
 
-        // Remove any existing destination directory entirely, then recreate it
-        await this.removeDestination(config.rulesFolderPath);
-        await fs.mkdir(config.rulesFolderPath, { recursive: true });
+        // Roll back a sync that was interrupted while swapping files in
+        if (!options.dryRun && await this.restoreBackup(config.rulesFolderPath)) {
+            this.logger.warn('Restored previous rules left by an interrupted sync');
+        }
 
-        // Copy files from repository
-        await this.copyRulesFromRepo(repoPath, config);
+        const prepared = await this.prepareSync(checkouts, config, options);
+        if (!prepared) {
+            return emptyPlan();
+        }
+        const { fingerprint, manifest, desired, disabled, plan, localEdits } = prepared;
+
+        if (options.dryRun) {
+            this.logPlannedOperations(plan, localEdits);
+            return plan;
+        }
+
+        if (localEdits.length > 0) {
+            await this.handleLocalEdits(localEdits, config, options);
+        }
+
+        if (hasChanges(plan)) {
+            await this.applyPlan(plan, desired, config.rulesFolderPath);
+        }
+        const outputs = await this.writeOutputs(desired, config, manifest?.outputs ?? []);
+        await this.writeManifest(config.rulesFolderPath, checkouts, desired, disabled, fingerprint, outputs);
+
+        this.logger.info(`File sync completed: ${plan.added.length} added, ${plan.modified.length} modified, ` +
+            `${plan.removed.length} removed, ${plan.unchanged.length} unchanged`);
+        return plan;
+    }
+
+    /**
+     * Work out what {@link syncFiles} would change in the rules folder,
+     * including the new file contents, without changing anything.
+     */
+    public async previewSync(checkouts: SourceCheckout[], config: RulesConfig): Promise<SyncPreview> {
+        const prepared = await this.prepareSync(checkouts, config);
+        if (!prepared) {
+            return { plan: emptyPlan(), contents: new Map(), localEdits: [] };
+        }
 
-        this.logger.info('File sync completed');
+        const { plan, desired, localEdits } = prepared;
+        const contents = new Map<string, Buffer>();
+        for (const relPath of [...plan.added, ...plan.modified]) {
+            contents.set(relPath, desired.get(relPath)!.content);
+        }
+        return { plan, contents, localEdits };
+    }
+
+    /** Read the manifest of the last sync into `rulesPath`, if any. */
+    public async readManifest(rulesPath: string): Promise<SyncManifest | undefined> {
+        try {
+            const manifest = JSON.parse(await fs.readFile(path.join(rulesPath, SYNC_MANIFEST_FILE), 'utf-8'));
+            return manifest?.version === 1 ? manifest as SyncManifest : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** List the entries of the optional categories available in the cached clones. */
+    public async listOptionalRules(checkouts: SourceCheckout[]): Promise<OptionalRule[]> {
+        const rules = new Map<string, OptionalRule>();
+
+        for (const { source, repoPath } of checkouts) {
+            const categories = await this.resolveCategories(repoPath, source);
+            for (const category of categories.filter(category => category.type === 'opt-in')) {
+                let entries;
+                try {
+                    entries = await fs.readdir(path.join(repoPath, category.path), { withFileTypes: true });
+                } catch {
+                    continue; // category not provided by this repository
+                }
+                for (const entry of entries) {
+                    if (entry.name.startsWith('.') || (!entry.isFile() && !entry.isDirectory())) {
+                        continue;
+                    }
+                    const id = `${category.path}/${toOptionalRuleName(entry.name)}`;
+                    const description = entry.isFile() && entry.name.endsWith('.mdc')
+                        ? getRuleMetadata(parseFrontmatter(await fs.readFile(path.join(repoPath, category.path, entry.name), 'utf-8'))).description
+                        : '';
+                    // Later sources take precedence, as when copying
+                    rules.set(id, { id, description, repoUrl: source.repoUrl });
+                }
+            }
+        }
+
+        return [...rules.values()].sort((a, b) => a.id.localeCompare(b.id));
     }
 
     public async hasExistingContent(repoPath: string): Promise<boolean> {
@@ -38,61 +319,848 @@ export class FileSyncer {
         }
     }
 
-    private async removeDestination(rulesPath: string): Promise<void> {
-        this.logger.debug('Removing destination directory entirely');
+    /**
+     * Resolve categories, collect the desired files, apply the workspace's
+     * overrides and plan against the rules folder.
+     *
+     * @returns `undefined` when commits and settings match the last sync.
+     */
+    private async prepareSync(checkouts: SourceCheckout[], config: RulesConfig, options: SyncOptions = {}): Promise<PreparedSync | undefined> {
+        this.checkSignatures(checkouts, config);
+
+        const categories: RepoCategory[][] = [];
+        for (const checkout of checkouts) {
+            categories.push(await this.resolveCategories(checkout.repoPath, checkout.source));
+        }
+
+        const skippedRules = await this.findUnusedLanguageRules(checkouts, categories, config);
+        const overrides = await this.loadOverrides(config);
+        const variables = config.templating ? await this.loadTemplateVariables(config) : undefined;
+        const fingerprint = this.computeFingerprint(checkouts, config, skippedRules, overrides, variables);
+        const manifest = await this.readManifest(config.rulesFolderPath);
+        if (fingerprint && manifest?.fingerprint === fingerprint) {
+            this.logger.info('Commits and settings unchanged since the last sync; skipping file sync');
+            return undefined;
+        }
+
+        // Collect files from each repository, lowest precedence first
+        const desired = new Map<string, DesiredFile>();
+        for (const [index, checkout] of checkouts.entries()) {
+            await this.collectRulesFromRepo(checkout.repoPath, checkout.source, categories[index]!, desired, skippedRules);
+        }
+        const disabled = overrides ? this.applyOverrides(desired, overrides) : new Map<string, DesiredFile>();
+        this.renderTemplates(desired, variables, options);
+        this.scanIncomingRules(desired, config, options);
+        this.lintIncomingRules(desired, config, options);
+
+        const existing = await this.hashDestination(config.rulesFolderPath);
+        const plan = planSync(new Map([...desired].map(([relPath, file]) => [relPath, file.hash])), existing);
+        const localEdits = this.findLocalEdits(plan, existing, manifest);
+
+        return { fingerprint, manifest, desired, disabled, plan, localEdits };
+    }
+
+    /**
+     * Read the workspace's `overridesFile` and the replacement files it
+     * refers to.
+     *
+     * @returns `undefined` when overrides are turned off or the file does not exist.
+     * @throws When the file is invalid or a replacement file is missing.
+     */
+    private async loadOverrides(config: RulesConfig): Promise<LoadedOverrides | undefined> {
+        const file = config.overridesFile;
+        if (!file || !config.workspaceFolderPath) {
+            return undefined;
+        }
 
+        let rules;
         try {
-            // Remove the entire rules folder (if it exists)
-            await fs.rm(rulesPath, { recursive: true, force: true });
-            this.logger.debug('Destination directory removed');
+            rules = await readOverrides(path.resolve(config.workspaceFolderPath, file));
         } catch (error) {
-            if ((error as any).code !== 'ENOENT') {
-                this.logger.warn(`Failed to remove destination directory: ${error}`);
+            throw new Error(`Invalid ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!rules) {
+            return undefined;
+        }
+
+        const replacements = new Map<string, { sourcePath: string; content: Buffer }>();
+        for (const [relPath, localPath] of Object.entries(rules.replace)) {
+            const sourcePath = path.join(config.workspaceFolderPath, localPath);
+            try {
+                replacements.set(relPath, { sourcePath, content: await fs.readFile(sourcePath) });
+            } catch (error) {
+                throw new Error(`${file}: cannot read the replacement ${localPath} of ${relPath}: ${error instanceof Error ? error.message : String(error)}`);
             }
         }
+        return { file, rules, replacements };
     }
 
-    private async copyRulesFromRepo(repoPath: string, config: RulesConfig): Promise<void> {
-        const repoEntries = await fs.readdir(repoPath, { withFileTypes: true });
+    /**
+     * Apply overrides to the collected files: disable, then replace, then
+     * append. Overrides for rules that are not synced are logged and ignored.
+     *
+     * @returns The disabled files.
+     */
+    private applyOverrides(desired: Map<string, DesiredFile>, overrides: LoadedOverrides): Map<string, DesiredFile> {
+        const { file, rules, replacements } = overrides;
+        const disabled = new Map<string, DesiredFile>();
 
-        for (const entry of repoEntries) {
-            // Skip hidden entries ('.git', '.github', etc.) or non-directories
-            if (entry.name.startsWith('.') || !entry.isDirectory()) {
+        for (const glob of rules.disable) {
+            const matches = [...desired.keys()].filter(relPath => matchesPathOrParent(glob, relPath));
+            if (matches.length === 0) {
+                this.logger.warn(`${file}: disable pattern '${glob}' matches no synced rule`);
+            }
+            for (const relPath of matches) {
+                disabled.set(relPath, desired.get(relPath)!);
+                desired.delete(relPath);
+                this.logger.info(`Disabled ${relPath} by ${file}`);
+            }
+        }
+
+        for (const [relPath, { sourcePath, content }] of replacements) {
+            const target = desired.get(relPath);
+            if (!target) {
+                this.logger.warn(`${file}: cannot replace ${relPath}: not a synced rule`);
                 continue;
             }
+            // Content scan findings then point at the local file
+            desired.set(relPath, { ...target, sourcePath, content, hash: hashContent(content), overrides: ['replaced'] });
+            this.logger.info(`Replaced ${relPath} with ${rules.replace[relPath]} by ${file}`);
+        }
 
-            const sourcePath = path.join(repoPath, entry.name);
+        for (const [relPath, text] of Object.entries(rules.append)) {
+            const target = desired.get(relPath);
+            if (!target) {
+                this.logger.warn(`${file}: cannot append to ${relPath}: not a synced rule`);
+                continue;
+            }
+            const original = target.content.toString('utf-8');
+            const separator = original === '' ? '' : original.endsWith('\n') ? '\n' : '\n\n';
+            const content = Buffer.from(`${original}${separator}${text}${text.endsWith('\n') ? '' : '\n'}`, 'utf-8');
+            desired.set(relPath, { ...target, content, hash: hashContent(content), overrides: [...target.overrides ?? [], 'appended'] });
+            this.logger.info(`Appended to ${relPath} by ${file}`);
+        }
 
-            // Handle any top-level directory whose name starts with 'team' specially
-            if (entry.name.startsWith('team')) {
-                // Ensure destination team-root folder exists (mirrors source name: 'team', 'teams', etc.)
-                const teamDestRoot = path.join(config.rulesFolderPath, entry.name);
-                await fs.mkdir(teamDestRoot, { recursive: true });
+        return disabled;
+    }
+
+    /**
+     * Variables for rendering rules: `templateVariables` as `vars.*`, fields
+     * of the workspace folder's `package.json` as `package.*` and the
+     * `workspace.*` values.
+     */
+    private async loadTemplateVariables(config: RulesConfig): Promise<Record<string, string>> {
+        const variables: Record<string, string> = {};
+        const workspacePath = config.workspaceFolderPath;
+        if (workspacePath) {
+            const packageJson = await this.readTextIfExists(path.join(workspacePath, 'package.json'));
+            if (packageJson !== undefined) {
+                try {
+                    Object.assign(variables, getPackageVariables(JSON.parse(packageJson)));
+                } catch (error) {
+                    this.logger.warn(`Ignoring package.json for templating: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+            variables['workspace.name'] = path.basename(workspacePath);
+            variables['workspace.rulesFolder'] = path.relative(workspacePath, config.rulesFolderPath).split(path.sep).join('/');
+        }
+        for (const [name, value] of Object.entries(config.templateVariables ?? {})) {
+            variables[`vars.${name}`] = value;
+        }
+        return variables;
+    }
+
+    /**
+     * Render the Markdown rules among the collected files with `variables`;
+     * nothing is rendered when templating is off. Unresolved variables stay
+     * in the text and are logged and reported.
+     */
+    private renderTemplates(desired: Map<string, DesiredFile>, variables: Record<string, string> | undefined, options: SyncOptions): void {
+        const problems: TemplateProblem[] = [];
+        if (variables) {
+            for (const [relPath, file] of desired) {
+                if (!TEMPLATE_FILE_EXTENSIONS.some(extension => relPath.endsWith(extension)) || file.content.includes(0)) {
+                    continue;
+                }
+                const original = file.content.toString('utf-8');
+                const { content, unresolved } = renderTemplate(original, variables);
+                if (content !== original) {
+                    const rendered = Buffer.from(content, 'utf-8');
+                    desired.set(relPath, { ...file, content: rendered, hash: hashContent(rendered) });
+                }
+                for (const variable of unresolved) {
+                    problems.push({ ...variable, relPath, repoUrl: file.repoUrl });
+                    this.logger.warn(`Template: ${relPath}:${variable.line}:${variable.column} (${file.repoUrl}): unresolved variable ${variable.name}`);
+                }
+            }
+        }
+        options.onTemplateProblems?.(problems);
+    }
+
+    /**
+     * Apply the `signatureVerification` policy: unverified checkouts are
+     * refused in `require` mode and logged in `warn` mode.
+     *
+     * @throws When a checkout is not verified and the policy is `require`.
+     */
+    private checkSignatures(checkouts: SourceCheckout[], config: RulesConfig): void {
+        const policy = config.signatureVerification ?? 'off';
+        if (policy === 'off') {
+            return;
+        }
+
+        for (const { source, commit, signature } of checkouts) {
+            if (signature?.verified) {
+                this.logger.info(`Commit ${commit?.substring(0, 8)} of ${source.repoUrl} is signed by allowed signer ${signature.signer}`);
+                continue;
+            }
+            const message = `Commit ${commit?.substring(0, 8) ?? '(unknown)'} of ${source.repoUrl} is not verified: ` +
+                (signature?.reason ?? 'its signature was not checked');
+            if (policy === 'require') {
+                throw new Error(`${message}. Keeping the last verified rules.`);
+            }
+            this.logger.warn(message);
+        }
+    }
+
+    /**
+     * Apply the `contentScanning` policy to the collected files: findings are
+     * logged and reported, and block the sync in `strict` mode.
+     *
+     * @throws When there are findings and the policy is `strict`.
+     */
+    private scanIncomingRules(desired: Map<string, DesiredFile>, config: RulesConfig, options: SyncOptions): void {
+        const policy = config.contentScanning ?? 'warn';
+        const findings: ContentFinding[] = [];
+        if (policy !== 'off') {
+            for (const [relPath, file] of desired) {
+                if (file.content.includes(0)) {
+                    continue; // binary file
+                }
+                for (const finding of scanContent(file.content.toString('utf-8'), config.contentScanPatterns ?? [])) {
+                    findings.push({ ...finding, relPath, sourcePath: file.sourcePath, repoUrl: file.repoUrl });
+                    this.logger.warn(`Content scan: ${relPath}:${finding.line}:${finding.column} (${file.repoUrl}): ${finding.message}`);
+                }
+            }
+        }
+
+        const blocked = policy === 'strict' && findings.length > 0;
+        options.onContentFindings?.(findings, blocked);
+        if (blocked) {
+            const files = new Set(findings.map(finding => finding.relPath)).size;
+            throw new Error(`Content scan found ${findings.length} issue(s) in ${files} incoming rule file(s). Keeping the previous rules.`);
+        }
+    }
+
+    /** Lint the collected files with `ruleLinting` on and report the issues. */
+    private lintIncomingRules(desired: Map<string, DesiredFile>, config: RulesConfig, options: SyncOptions): void {
+        let issues: LintIssue[] = [];
+        if (config.ruleLinting ?? true) {
+            const rulesFolder = config.workspaceFolderPath && path.relative(config.workspaceFolderPath, config.rulesFolderPath).split(path.sep).join('/');
+            issues = lintRules([...desired].map(([relPath, file]) => ({ relPath, content: file.content })), {
+                maxRuleSizeKb: config.maxRuleSizeKb,
+                rulesFolder: rulesFolder || undefined
+            });
+            for (const issue of issues) {
+                this.logger.warn(`Lint ${issue.severity}: ${issue.relPath}:${issue.line}:${issue.column}: ${issue.message} (${issue.code})`);
+            }
+        }
+        options.onLintIssues?.(issues);
+    }
+
+    private logPlannedOperations(plan: SyncPlan, localEdits: string[]): void {
+        const edited = new Set(localEdits);
+        const describe = (relPath: string) => edited.has(relPath) ? `${relPath} (edited locally)` : relPath;
+
+        for (const relPath of plan.added) {
+            this.logger.info(`[dry run] Would add ${relPath}`);
+        }
+        for (const relPath of plan.modified) {
+            this.logger.info(`[dry run] Would update ${describe(relPath)}`);
+        }
+        for (const relPath of plan.removed) {
+            this.logger.info(`[dry run] Would remove ${describe(relPath)}`);
+        }
+        this.logger.info(`[dry run] ${plan.added.length} to add, ${plan.modified.length} to update, ` +
+            `${plan.removed.length} to remove, ${plan.unchanged.length} unchanged`);
+    }
+
+    /**
+     * Categories of a cached repository: declared by its {@link REPO_MANIFEST_FILE}
+     * when present, otherwise inferred from the top-level folder names. Folders
+     * listed in the `optionalCategories` setting are treated as opt-in either way.
+     */
+    private async resolveCategories(repoPath: string, source: RuleSource): Promise<RepoCategory[]> {
+        let manifest;
+        try {
+            manifest = await readRepoManifest(repoPath);
+        } catch (error) {
+            throw new Error(`Invalid rules repository ${source.repoUrl}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        let categories: RepoCategory[];
+        if (manifest) {
+            checkExtensionVersion(manifest, source.repoUrl);
+            this.logger.info(`Using ${REPO_MANIFEST_FILE} of ${source.repoUrl}: ${manifest.categories.map(c => `${c.path} (${c.type})`).join(', ')}`);
+            categories = manifest.categories;
+        } else {
+            const repoEntries = await fs.readdir(repoPath, { withFileTypes: true });
+            categories = repoEntries
+                // Skip hidden entries ('.git', '.github', etc.) and top-level files
+                .filter(entry => !entry.name.startsWith('.') && entry.isDirectory())
+                .map(entry => ({ path: entry.name, type: inferCategoryType(entry.name), destination: entry.name }));
+        }
+
+        return categories.map(category => category.type !== 'team' && source.optionalCategories?.includes(category.path)
+            ? { ...category, type: 'opt-in' as const }
+            : category);
+    }
 
-                for (const teamName of config.teamNames) {
+    private async collectRulesFromRepo(
+        repoPath: string,
+        source: RuleSource,
+        categories: RepoCategory[],
+        desired: Map<string, DesiredFile>,
+        skipped: ReadonlySet<string>
+    ): Promise<void> {
+        const destRoot = toRelativePath(source.destination);
+
+        for (const category of categories) {
+            const sourcePath = path.join(repoPath, category.path);
+            const destRelDir = path.posix.join(destRoot, category.destination);
+            let stats;
+            try {
+                stats = await fs.stat(sourcePath);
+            } catch {
+                this.logger.info(`Category not found in repository: ${category.path} (skipping)`);
+                continue;
+            }
+
+            if (!stats.isDirectory() && category.type !== 'always' && category.type !== 'language') {
+                this.logger.warn(`Category ${category.path} of type ${category.type} must be a folder (skipping)`);
+            } else if (category.type === 'team') {
+                // Team categories (by default any top-level folder starting with 'team'): configured teams only
+                for (const teamName of source.teamNames) {
                     const srcTeamPath = path.join(sourcePath, teamName);
                     if (await this.directoryExists(srcTeamPath)) {
-                        const destTeamPath = path.join(teamDestRoot, teamName);
-                        await this.copyRecursive(srcTeamPath, destTeamPath);
-                        this.logger.info(`Copied team rules for: ${teamName} from ${entry.name}/`);
+                        // Destination mirrors source name: 'team', 'teams', etc.
+                        await this.collectTree(repoPath, `${category.path}/${teamName}`, path.posix.join(destRelDir, teamName), source, category.path, desired, skipped);
+                        this.logger.info(`Copied team rules for: ${teamName} from ${category.path}/`);
                     } else {
-                        this.logger.info(`Team folder not found under ${entry.name}/: ${teamName} (skipping)`);
+                        this.logger.info(`Team folder not found under ${category.path}/: ${teamName} (skipping)`);
                     }
                 }
+            } else if (category.type === 'opt-in') {
+                // Opt-in category: only the selected entries
+                const selected = new Set(source.selectedRules ?? []);
+                await this.collectTree(repoPath, category.path, destRelDir, source, category.path, desired, skipped,
+                    name => selected.has(`${category.path}/${toOptionalRuleName(name)}`));
+                this.logger.info(`Copied selected rules from optional folder: ${category.path}`);
+            } else if (stats.isFile()) {
+                await this.collectFile(repoPath, category.path, destRelDir, source, category.path, desired, skipped);
+                this.logger.info(`Copied file: ${category.path}`);
+            } else {
+                // Copy any other category in full
+                await this.collectTree(repoPath, category.path, destRelDir, source, category.path, desired, skipped);
+                this.logger.info(`Copied folder: ${category.path}`);
+            }
+        }
+    }
+
+    // No filtering by file extension – every regular file is mirrored.
+    // `selectEntry` filters the entries of `repoRelDir` itself, not of its subfolders.
+    private async collectTree(
+        repoPath: string,
+        repoRelDir: string,
+        destRelDir: string,
+        source: RuleSource,
+        category: string,
+        desired: Map<string, DesiredFile>,
+        skipped: ReadonlySet<string>,
+        selectEntry?: (name: string) => boolean
+    ): Promise<void> {
+        const entries = await fs.readdir(path.join(repoPath, repoRelDir), { withFileTypes: true });
+
+        for (const entry of entries) {
+            if (selectEntry && !selectEntry(entry.name)) {
+                continue;
+            }
+            const repoRelPath = `${repoRelDir}/${entry.name}`;
+            const relPath = path.posix.join(destRelDir, entry.name);
+
+            if (entry.isDirectory()) {
+                if (isExcluded(repoRelPath, source)) {
+                    this.logger.debug(`Skipping ${repoRelPath}: excluded by pattern`);
+                } else {
+                    await this.collectTree(repoPath, repoRelPath, relPath, source, category, desired, skipped);
+                }
+            } else if (entry.isFile()) {
+                await this.collectFile(repoPath, repoRelPath, relPath, source, category, desired, skipped);
+            } else {
+                this.logger.debug(`Skipping non-regular file: ${path.join(repoPath, repoRelPath)}`);
+            }
+        }
+    }
+
+    /** Add one repository file to `desired` unless a filter drops it. */
+    private async collectFile(
+        repoPath: string,
+        repoRelPath: string,
+        relPath: string,
+        source: RuleSource,
+        category: string,
+        desired: Map<string, DesiredFile>,
+        skipped: ReadonlySet<string>
+    ): Promise<void> {
+        const sourcePath = path.join(repoPath, repoRelPath);
+        if (isExcluded(repoRelPath, source)) {
+            this.logger.debug(`Skipping ${repoRelPath}: excluded by pattern`);
+            return;
+        }
+        if (!isIncluded(repoRelPath, source)) {
+            this.logger.debug(`Skipping ${repoRelPath}: not matched by include patterns`);
+            return;
+        }
+        if (skipped.has(sourcePath)) {
+            this.logger.debug(`Skipping ${repoRelPath}: no matching files in the workspace`);
+            return;
+        }
+
+        if (desired.has(relPath)) {
+            this.logger.info(`Overriding ${relPath} with content from a higher-precedence source`);
+        }
+        const content = await fs.readFile(sourcePath);
+        desired.set(relPath, { sourcePath, repoUrl: source.repoUrl, repoPath: repoRelPath, category, content, hash: hashContent(content) });
+    }
+
+    /** Hash every file currently in the rules folder, except the manifest. */
+    private async hashDestination(rulesPath: string): Promise<Map<string, string>> {
+        const hashes = new Map<string, string>();
+
+        for (const relPath of await this.listFiles(rulesPath)) {
+            if (relPath === SYNC_MANIFEST_FILE) {
+                continue;
+            }
+            const fullPath = path.join(rulesPath, relPath);
+            const stats = await fs.lstat(fullPath);
+            // Non-regular entries (symlinks etc.) never match a source hash and get replaced
+            hashes.set(relPath, stats.isFile() ? hashContent(await fs.readFile(fullPath)) : '');
+        }
+
+        return hashes;
+    }
+
+    /** List every non-directory entry below `root` as forward-slash relative paths. */
+    private async listFiles(root: string): Promise<string[]> {
+        const files: string[] = [];
+
+        const walk = async (dir: string, relDir: string): Promise<void> => {
+            let entries;
+            try {
+                entries = await fs.readdir(dir, { withFileTypes: true });
+            } catch (error) {
+                if ((error as any).code === 'ENOENT') {
+                    return;
+                }
+                throw error;
+            }
+
+            for (const entry of entries) {
+                const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) {
+                    await walk(path.join(dir, entry.name), relPath);
+                } else {
+                    files.push(relPath);
+                }
+            }
+        };
+
+        await walk(root, '');
+        return files;
+    }
+
+    /**
+     * Apply a plan atomically. New content is first written to a staging
+     * folder next to the rules folder, so a failure while writing leaves the
+     * rules untouched. Staged files are then swapped in by rename while every
+     * displaced file is moved into a backup folder; if any step fails the
+     * backup is restored. The AI assistant therefore sees either the previous
+     * or the new rule set, never a partial one. A backup left behind by a crash
+     * is restored at the start of the next sync.
+     */
+    private async applyPlan(plan: SyncPlan, desired: Map<string, DesiredFile>, rulesPath: string): Promise<void> {
+        const { stagingPath, backupPath } = this.getWorkPaths(rulesPath);
+        const written = [...plan.added, ...plan.modified];
+
+        await fs.rm(stagingPath, { recursive: true, force: true });
+        try {
+            for (const relPath of written) {
+                const file = desired.get(relPath);
+                if (!file) {
+                    continue;
+                }
+                const stagedPath = path.join(stagingPath, relPath);
+                await fs.mkdir(path.dirname(stagedPath), { recursive: true });
+                await fs.writeFile(stagedPath, file.content);
+            }
+        } catch (error) {
+            await fs.rm(stagingPath, { recursive: true, force: true });
+            throw new Error(`Failed to stage rules: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        // Journal the added paths before touching the rules folder so a swap can always be undone
+        await fs.rm(backupPath, { recursive: true, force: true });
+        await fs.mkdir(path.join(backupPath, BACKUP_FILES_DIR), { recursive: true });
+        await fs.writeFile(path.join(backupPath, BACKUP_JOURNAL_FILE), JSON.stringify({ added: plan.added }), 'utf-8');
+
+        try {
+            // Removals first, so a stale file or folder never blocks a new path
+            for (const relPath of [...plan.removed, ...plan.modified]) {
+                await this.moveFile(path.join(rulesPath, relPath), path.join(backupPath, BACKUP_FILES_DIR, relPath));
+            }
+            await this.pruneEmptyDirectories(rulesPath, plan.removed);
+
+            for (const relPath of written) {
+                await this.moveFile(path.join(stagingPath, relPath), path.join(rulesPath, relPath));
+                this.logger.debug(`Wrote ${relPath}`);
+            }
+        } catch (error) {
+            this.logger.error('Applying rules failed; restoring previous rules', error);
+            await this.restoreBackup(rulesPath);
+            await fs.rm(stagingPath, { recursive: true, force: true });
+            throw new Error(`Failed to apply rules, previous rules restored: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        for (const relPath of plan.removed) {
+            this.logger.debug(`Removed ${relPath}`);
+        }
+        await fs.rm(backupPath, { recursive: true, force: true });
+        await fs.rm(stagingPath, { recursive: true, force: true });
+    }
+
+    /**
+     * Undo a partially applied plan using the backup folder, if one exists:
+     * newly added files are deleted and displaced files are moved back.
+     *
+     * @returns `true` when a backup was found and restored.
+     */
+    private async restoreBackup(rulesPath: string): Promise<boolean> {
+        const { backupPath } = this.getWorkPaths(rulesPath);
+        if (!await this.directoryExists(backupPath)) {
+            return false;
+        }
+
+        let journal: { added: string[] } = { added: [] };
+        try {
+            journal = JSON.parse(await fs.readFile(path.join(backupPath, BACKUP_JOURNAL_FILE), 'utf-8'));
+        } catch {
+            // Interrupted before the journal was written: nothing was moved yet
+        }
+
+        for (const relPath of journal.added) {
+            await fs.rm(path.join(rulesPath, relPath), { force: true });
+        }
+        await this.pruneEmptyDirectories(rulesPath, journal.added);
+
+        const filesRoot = path.join(backupPath, BACKUP_FILES_DIR);
+        for (const relPath of await this.listFiles(filesRoot)) {
+            await this.moveFile(path.join(filesRoot, relPath), path.join(rulesPath, relPath));
+        }
+
+        await fs.rm(backupPath, { recursive: true, force: true });
+        return true;
+    }
+
+    private async moveFile(from: string, to: string): Promise<void> {
+        await fs.mkdir(path.dirname(to), { recursive: true });
+        await fs.rename(from, to);
+    }
+
+    /** Staging and backup folders live next to the rules folder, on the same file system. */
+    private getWorkPaths(rulesPath: string): { stagingPath: string; backupPath: string } {
+        const parent = path.dirname(rulesPath);
+        const name = path.basename(rulesPath);
+        return {
+            stagingPath: path.join(parent, `.${name}.staging`),
+            backupPath: path.join(parent, `.${name}.backup`)
+        };
+    }
+
+    /** Remove folders left empty by deleted files, deepest first. */
+    private async pruneEmptyDirectories(rulesPath: string, removed: string[]): Promise<void> {
+        const candidates = new Set<string>();
+        for (const relPath of removed) {
+            for (let dir = path.posix.dirname(relPath); dir !== '.'; dir = path.posix.dirname(dir)) {
+                candidates.add(dir);
+            }
+        }
+
+        const deepestFirst = [...candidates].sort((a, b) => b.split('/').length - a.split('/').length);
+        for (const relDir of deepestFirst) {
+            try {
+                await fs.rmdir(path.join(rulesPath, relDir));
+            } catch {
+                // not empty or already gone
+            }
+        }
+    }
+
+    /**
+     * Generate the files of the enabled output targets in the workspace folder
+     * and clean up outputs of the previous sync that are no longer produced.
+     * Existing files without the generated-file marker are left alone.
+     *
+     * @returns Workspace-relative paths of the generated outputs.
+     */
+    private async writeOutputs(desired: Map<string, DesiredFile>, config: RulesConfig, previous: string[]): Promise<string[]> {
+        const targets = config.outputTargets ?? [];
+        const workspacePath = config.workspaceFolderPath;
+        if (!workspacePath) {
+            if (targets.length > 0) {
+                this.logger.warn('No workspace folder; skipping output targets');
+            }
+            return [];
+        }
+
+        const rules: RuleDocument[] = [...desired]
+            .filter(([relPath]) => relPath.endsWith('.mdc'))
+            .map(([relPath, file]) => {
+                const parsed = parseFrontmatter(file.content.toString('utf-8'));
+                return { relPath, metadata: getRuleMetadata(parsed), body: parsed.body };
+            });
+        const rulesFolder = path.relative(workspacePath, config.rulesFolderPath).split(path.sep).join('/');
+        const outputs = renderOutputs(rules, targets, rulesFolder);
+
+        const generated: string[] = [];
+        for (const output of outputs) {
+            const fullPath = path.join(workspacePath, output.path);
+            const existing = await this.readTextIfExists(fullPath);
+            if (output.kind === 'file' && existing !== undefined && !existing.includes(GENERATED_FILE_MARKER)) {
+                // Same rule as removeOutput: a file without the marker belongs to the user
+                this.logger.warn(`Not overwriting ${output.path}: it was not generated by AI Rules Syncer`);
+                continue;
+            }
+            generated.push(output.path);
+            const content = output.kind === 'block' ? mergeManagedBlock(existing, output.content) : output.content;
+            if (content !== existing) {
+                await fs.mkdir(path.dirname(fullPath), { recursive: true });
+                await fs.writeFile(fullPath, content, 'utf-8');
+                this.logger.info(`Generated ${output.path}`);
+            }
+        }
+
+        for (const relPath of previous.filter(relPath => !generated.includes(relPath))) {
+            await this.removeOutput(path.join(workspacePath, relPath));
+            this.logger.info(`Removed generated ${relPath}`);
+        }
+
+        return generated;
+    }
+
+    /**
+     * Remove a previously generated output: a managed block is cut out of its
+     * file (deleting the file if nothing else is left), a fully generated file
+     * is deleted. Files no longer carrying a marker belong to the user.
+     */
+    private async removeOutput(fullPath: string): Promise<void> {
+        const existing = await this.readTextIfExists(fullPath);
+        if (existing === undefined) {
+            return;
+        }
+
+        if (existing.includes(BLOCK_BEGIN)) {
+            const remaining = mergeManagedBlock(existing, undefined);
+            if (remaining.trim()) {
+                await fs.writeFile(fullPath, remaining, 'utf-8');
             } else {
-                // Copy any other top-level directory in full
-                const destPath = path.join(config.rulesFolderPath, entry.name);
-                await this.copyRecursive(sourcePath, destPath);
-                this.logger.info(`Copied folder: ${entry.name}`);
+                await fs.rm(fullPath, { force: true });
+            }
+        } else if (existing.includes(GENERATED_FILE_MARKER)) {
+            await fs.rm(fullPath, { force: true });
+        }
+    }
+
+    private async readTextIfExists(filePath: string): Promise<string | undefined> {
+        try {
+            return await fs.readFile(filePath, 'utf-8');
+        } catch (error) {
+            if ((error as any).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * With `languageDetection`, find the language rules that do not apply to
+     * the workspace: `.mdc` files of `language` categories whose `globs`
+     * match no workspace file. Rules without `globs` or with `alwaysApply`
+     * are kept.
+     *
+     * @param categories Categories of each checkout, in the same order.
+     * @returns Absolute paths of the rule files to skip.
+     */
+    private async findUnusedLanguageRules(checkouts: SourceCheckout[], categories: RepoCategory[][], config: RulesConfig): Promise<Set<string>> {
+        const skipped = new Set<string>();
+        if (!config.languageDetection) {
+            return skipped;
+        }
+        if (!config.workspaceFolderPath) {
+            this.logger.warn('No workspace folder; language detection disabled');
+            return skipped;
+        }
+
+        const scan = await scanWorkspace(config.workspaceFolderPath, [config.rulesFolderPath]);
+        if (scan.truncated) {
+            this.logger.warn(`Workspace scan stopped after ${scan.files.length} files; language detection may miss some languages`);
+        }
+
+        for (const [index, { repoPath }] of checkouts.entries()) {
+            for (const category of categories[index]!.filter(category => category.type === 'language')) {
+                const categoryPath = path.join(repoPath, category.path);
+                // A file category lists as itself; a missing one as nothing
+                const rulePaths = await this.directoryExists(categoryPath)
+                    ? (await this.listFiles(categoryPath)).map(relPath => path.join(categoryPath, relPath))
+                    : [categoryPath];
+                for (const rulePath of rulePaths) {
+                    if (!rulePath.endsWith('.mdc') || !await this.fileExists(rulePath)) {
+                        continue;
+                    }
+                    const metadata = getRuleMetadata(parseFrontmatter(await fs.readFile(rulePath, 'utf-8')));
+                    if (!metadata.alwaysApply && metadata.globs.length > 0 && !matchesAnyPath(metadata.globs, scan.files)) {
+                        skipped.add(rulePath);
+                    }
+                }
             }
         }
+
+        this.logger.info(`Language detection scanned ${scan.files.length} files; ${skipped.size} language rule(s) do not apply`);
+        return skipped;
+    }
+
+    /**
+     * Fingerprint of the inputs of a sync: the checked-out commits plus the
+     * per-source selection settings, output targets, skipped language rules,
+     * local overrides, template variables and lint settings. `undefined` when
+     * a commit is unknown.
+     */
+    private computeFingerprint(
+        checkouts: SourceCheckout[],
+        config: RulesConfig,
+        skippedRules: ReadonlySet<string>,
+        overrides: LoadedOverrides | undefined,
+        variables: Record<string, string> | undefined
+    ): string | undefined {
+        if (checkouts.some(checkout => !checkout.commit)) {
+            return undefined;
+        }
+        return hashContent(JSON.stringify({
+            checkouts: checkouts.map(({ source, commit }) => ({ source, commit })),
+            outputTargets: config.outputTargets ?? [],
+            contentScanning: [config.contentScanning ?? 'warn', config.contentScanPatterns ?? []],
+            skippedRules: [...skippedRules].sort(),
+            overrides: overrides && [overrides.rules, [...overrides.replacements].map(([relPath, { content }]) => [relPath, hashContent(content)])],
+            templateVariables: variables,
+            linting: [config.ruleLinting ?? true, config.maxRuleSizeKb ?? DEFAULT_MAX_RULE_SIZE_KB]
+        }));
+    }
+
+    /**
+     * Find files the plan would overwrite or delete although they no longer
+     * match what the last sync wrote: managed files edited locally and files
+     * created locally inside the rules folder. Without a manifest nothing can
+     * be attributed, so nothing is reported.
+     */
+    private findLocalEdits(plan: SyncPlan, existing: Map<string, string>, manifest: SyncManifest | undefined): string[] {
+        if (!manifest) {
+            return [];
+        }
+        return [...plan.modified, ...plan.removed]
+            .filter(relPath => manifest.files[relPath]?.hash !== existing.get(relPath))
+            .sort();
+    }
+
+    private async handleLocalEdits(relPaths: string[], config: RulesConfig, options: SyncOptions): Promise<void> {
+        this.logger.warn(`Locally edited rule files would be replaced: ${relPaths.join(', ')}`);
+
+        const policy = config.localEdits ?? 'prompt';
+        let action: LocalEditAction;
+        if (policy !== 'prompt') {
+            action = policy;
+        } else if (options.onLocalEdits) {
+            action = await options.onLocalEdits(relPaths);
+        } else {
+            action = 'backup';
+        }
+
+        if (action === 'abort') {
+            throw new Error(`Sync aborted: ${relPaths.length} locally edited rule file(s) would be overwritten: ${relPaths.join(', ')}`);
+        }
+        if (action === 'backup') {
+            const backupDir = await this.backupLocalEdits(config.rulesFolderPath, relPaths);
+            this.logger.warn(`Backed up locally edited rule files to ${backupDir}`);
+        } else {
+            this.logger.warn('Overwriting locally edited rule files');
+        }
+    }
+
+    /**
+     * Copy edited files to `<rulesFolder>-local-edits/<timestamp>/`. A `.bak`
+     * suffix keeps the copies from being picked up as active rules.
+     */
+    private async backupLocalEdits(rulesPath: string, relPaths: string[]): Promise<string> {
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const backupDir = path.join(path.dirname(rulesPath), `${path.basename(rulesPath)}-local-edits`, timestamp);
+
+        for (const relPath of relPaths) {
+            const target = path.join(backupDir, `${relPath}.bak`);
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await fs.copyFile(path.join(rulesPath, relPath), target);
+        }
+        return backupDir;
     }
 
-    // Removed granular file copy logic; full directory trees are copied via fs.cp
+    private async writeManifest(
+        rulesPath: string,
+        checkouts: SourceCheckout[],
+        desired: Map<string, DesiredFile>,
+        disabled: Map<string, DesiredFile>,
+        fingerprint: string | undefined,
+        outputs: string[]
+    ): Promise<void> {
+        const toManifestFiles = (files: Map<string, DesiredFile>) => Object.fromEntries([...files].sort(([a], [b]) => a.localeCompare(b)).map(([relPath, file]) => [
+            relPath,
+            { hash: file.hash, source: file.repoUrl, path: file.repoPath, category: file.category, overrides: file.overrides }
+        ]));
+        const manifest: SyncManifest = {
+            version: 1,
+            syncedAt: new Date().toISOString(),
+            fingerprint,
+            sources: checkouts.map(({ source, commit, resolvedRef, signature }) => ({
+                repoUrl: source.repoUrl,
+                branch: source.branch,
+                destination: source.destination,
+                ref: source.ref || undefined,
+                resolvedRef,
+                commit,
+                signer: signature?.signer
+            })),
+            teams: [...new Set(checkouts.flatMap(checkout => checkout.source.teamNames))],
+            files: toManifestFiles(desired),
+            disabled: disabled.size > 0 ? toManifestFiles(disabled) : undefined,
+            outputs: outputs.length > 0 ? outputs : undefined
+        };
+        await fs.mkdir(rulesPath, { recursive: true });
+        await fs.writeFile(path.join(rulesPath, SYNC_MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+    }
 
-    // No longer filtering by file extension – copy everything
-    private async copyRecursive(src: string, dest: string): Promise<void> {
-        await fs.cp(src, dest, { recursive: true, force: true });
+    private async fileExists(filePath: string): Promise<boolean> {
+        try {
+            const stats = await fs.stat(filePath);
+            return stats.isFile();
+        } catch {
+            return false;
+        }
     }
 
     private async directoryExists(dirPath: string): Promise<boolean> {
@@ -103,4 +1171,30 @@ export class FileSyncer {
             return false;
         }
     }
-}
\ No newline at end of file
+}
+
+/** Convert a user-supplied relative folder into a normalised forward-slash path ('' for the root). */
+function toRelativePath(folder: string): string {
+    const normalized = path.posix.normalize(folder.replace(/\\/g, '/'));
+    return normalized === '.' ? '' : normalized.replace(/^\/+|\/+$/g, '');
+}
+
+/** Whether a repository-relative path, or a folder containing it, matches an `exclude` glob. */
+function isExcluded(repoRelPath: string, source: RuleSource): boolean {
+    return (source.exclude ?? []).some(glob => matchesPathOrParent(glob, repoRelPath));
+}
+
+/** Whether a repository-relative file passes the `include` globs; no globs include everything. */
+function isIncluded(repoRelPath: string, source: RuleSource): boolean {
+    const include = source.include ?? [];
+    return include.length === 0 || include.some(glob => matchesPathOrParent(glob, repoRelPath));
+}
+
+function emptyPlan(): SyncPlan {
+    return { added: [], modified: [], removed: [], unchanged: [] };
+}
+
+/** Name used to select an entry of an optional category: the file name without `.mdc`, or the folder name. */
+function toOptionalRuleName(entryName: string): string {
+    return entryName.replace(/\.mdc$/, '');
+}
@@ -0,0 +1,214 @@
+/**
+ * Frontmatter parsing for `.mdc` rule files.
+ * Cursor rule frontmatter looks like YAML but is not strict YAML: `globs` is
+ * commonly written unquoted (`globs: *.ts, src/**`), which a YAML parser
+ * would reject as an alias. This parser accepts the subset rule files use –
+ * plain scalars, quoted strings, booleans, inline `[a, b]` lists and block
+ * `- item` lists – and reports anything else as an issue with its line.
+ */
+
+export type FrontmatterValue = string | boolean | string[];
+
+export interface FrontmatterIssue {
+    /** 1-based line number in the file. */
+    line: number;
+    message: string;
+}
+
+export interface ParsedRule {
+    /** Whether the file starts with a `---` frontmatter block. */
+    hasFrontmatter: boolean;
+    attributes: Record<string, FrontmatterValue>;
+    /** 1-based line number of each attribute key. */
+    attributeLines: Record<string, number>;
+    /** Content after the frontmatter block. */
+    body: string;
+    errors: FrontmatterIssue[];
+}
+
+/** The attributes Cursor uses to decide when a rule applies. */
+export interface RuleMetadata {
+    description: string;
+    globs: string[];
+    alwaysApply: boolean;
+}
+
+/**
+ * How a rule is attached, following Cursor's rule types: always applied,
+ * auto-attached by globs, requested by the agent based on its description,
+ * or only when mentioned manually.
+ */
+export type RuleType = 'always' | 'auto' | 'agent' | 'manual';
+
+export function parseFrontmatter(content: string): ParsedRule {
+    const text = content.replace(/^\uFEFF/, '');
+    const lines = text.split(/\r?\n/);
+    const result: ParsedRule = { hasFrontmatter: false, attributes: {}, attributeLines: {}, body: text, errors: [] };
+
+    if (lines[0]?.trim() !== '---') {
+        return result;
+    }
+
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end === -1) {
+        result.errors.push({ line: 1, message: 'Frontmatter is not closed with "---"' });
+        return result;
+    }
+
+    result.hasFrontmatter = true;
+    result.body = lines.slice(end + 1).join('\n');
+
+    // Key whose value may continue as a block list on the following lines
+    let listKey: string | undefined;
+
+    for (let index = 1; index < end; index++) {
+        const line = lines[index]!;
+        const lineNumber = index + 1;
+        if (!line.trim() || line.trim().startsWith('#')) {
+            continue;
+        }
+
+        const item = line.match(/^\s*-\s+(.*)$/) ?? line.match(/^\s*-()$/);
+        if (item) {
+            if (!listKey) {
+                result.errors.push({ line: lineNumber, message: 'List item without a key' });
+                continue;
+            }
+            const current = result.attributes[listKey];
+            const list = Array.isArray(current) ? current : [];
+            const value = parseScalar(item[1]!.trim(), lineNumber, result.errors);
+            list.push(String(value));
+            result.attributes[listKey] = list;
+            continue;
+        }
+
+        const pair = line.match(/^([A-Za-z_][\w-]*)\s*:(?:\s+(.*)|)$/);
+        if (!pair) {
+            result.errors.push({ line: lineNumber, message: `Expected "key: value" but found "${line.trim()}"` });
+            listKey = undefined;
+            continue;
+        }
+
+        const key = pair[1]!;
+        const raw = (pair[2] ?? '').trim();
+        if (key in result.attributes) {
+            result.errors.push({ line: lineNumber, message: `Duplicate key "${key}"` });
+        }
+        result.attributeLines[key] = lineNumber;
+
+        if (raw === '') {
+            result.attributes[key] = '';
+            listKey = key;
+        } else {
+            result.attributes[key] = raw.startsWith('[')
+                ? parseInlineList(raw, lineNumber, result.errors)
+                : parseScalar(raw, lineNumber, result.errors);
+            listKey = undefined;
+        }
+    }
+
+    return result;
+}
+
+/** Extract the Cursor rule attributes, normalising `globs` to a list. */
+export function getRuleMetadata(parsed: ParsedRule): RuleMetadata {
+    const { description, globs, alwaysApply } = parsed.attributes;
+    const globList = (Array.isArray(globs) ? globs : typeof globs === 'string' ? [globs] : [])
+        .flatMap(splitGlobs)
+        .map(glob => glob.trim())
+        .filter(Boolean);
+
+    return {
+        description: typeof description === 'string' ? description : '',
+        globs: globList,
+        alwaysApply: alwaysApply === true
+    };
+}
+
+export function getRuleType(metadata: RuleMetadata): RuleType {
+    if (metadata.alwaysApply) {
+        return 'always';
+    }
+    if (metadata.globs.length > 0) {
+        return 'auto';
+    }
+    return metadata.description ? 'agent' : 'manual';
+}
+
+function parseScalar(raw: string, line: number, errors: FrontmatterIssue[]): string | boolean {
+    if (raw === 'true' || raw === 'false') {
+        return raw === 'true';
+    }
+
+    const quote = raw[0];
+    if (quote === '"' || quote === "'") {
+        if (raw.length < 2 || !raw.endsWith(quote)) {
+            errors.push({ line, message: `Unterminated ${quote === '"' ? 'double' : 'single'}-quoted string` });
+            return raw.slice(1);
+        }
+        const inner = raw.slice(1, -1);
+        return quote === '"'
+            ? inner.replace(/\\(["\\])/g, '$1')
+            : inner.replace(/''/g, "'");
+    }
+
+    return raw;
+}
+
+/** Split a comma-separated glob list, keeping the commas of `{a,b}` alternatives. */
+function splitGlobs(value: string): string[] {
+    const globs: string[] = [];
+    let braceDepth = 0;
+    let start = 0;
+    for (let index = 0; index < value.length; index++) {
+        const char = value[index];
+        if (char === '{') {
+            braceDepth++;
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+        } else if (char === ',' && braceDepth === 0) {
+            globs.push(value.slice(start, index));
+            start = index + 1;
+        }
+    }
+    globs.push(value.slice(start));
+    return globs;
+}
+
+function parseInlineList(raw: string, line: number, errors: FrontmatterIssue[]): string[] {
+    if (!raw.endsWith(']')) {
+        errors.push({ line, message: 'Inline list is not closed with "]"' });
+        return [];
+    }
+
+    const items: string[] = [];
+    let current = '';
+    let quote: string | undefined;
+    let braceDepth = 0;
+    for (const char of raw.slice(1, -1)) {
+        if (quote) {
+            current += char;
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            current += char;
+        } else if (char === ',' && braceDepth === 0) {
+            items.push(current.trim());
+            current = '';
+        } else {
+            if (char === '{') {
+                braceDepth++;
+            } else if (char === '}' && braceDepth > 0) {
+                braceDepth--;
+            }
+            current += char;
+        }
+    }
+    if (current.trim()) {
+        items.push(current.trim());
+    }
+
+    return items.map(item => String(parseScalar(item, line, errors)));
+}
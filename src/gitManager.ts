@@ -6,49 +6,422 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { SimpleGit, simpleGit } from 'simple-git';
-import { RulesConfig } from './configManager';
+import { RuleSource, RulesConfig } from './rulesConfig';
 import properLockfile from 'proper-lockfile';
-import * as vscode from 'vscode';
+import * as semver from 'semver';
+import { Logger } from './logger';
+import { SIGNATURE_FORMAT, SignatureCheck, evaluateSignature } from './signatures';
+import { RepoCategory, inferCategoryType, readRepoManifest } from './repoManifest';
+import { SPARSE_REGISTRY_FILE, SparseRegistry, computeSparsePaths, pruneConsumers } from './sparseCheckout';
+import { isSameRepository, legacyRepoSlug, repoSlug } from './repoUrl';
+import { SourceCheckout } from './fileSyncer';
+
+/** A commit listed in the "what changed" report. */
+export interface CommitSummary {
+    sha: string;
+    author: string;
+    subject: string;
+}
+
+/** Upper bound for the commits listed after an update. */
+export const MAX_LOGGED_COMMITS = 50;
+
+/** Last use of a cached clone, kept inside its `.git` folder. */
+const CACHE_METADATA_FILE = 'ai-rules-cache.json';
+
+/** A clone in the cache directory. */
+export interface CachedRepository {
+    /** Folder name inside the cache directory. */
+    slug: string;
+    repoPath: string;
+    repoUrl: string;
+    /** Last sync that used the clone. */
+    lastUsed: Date;
+    /** Disk usage in bytes. */
+    size: number;
+}
+
+/** A cached clone brought up to date by {@link GitManager.ensureRepository}. */
+export interface EnsuredRepository {
+    repoPath: string;
+    commit: string;
+    actualBranch?: string;
+    resolvedRef?: string;
+    offline?: boolean;
+}
+
+/** Clones fetched during one sync pass, keyed by clone path, branch and pinned ref. */
+export type SyncPass = Map<string, EnsuredRepository>;
+
+/** A pinned `ref` resolved to a commit SHA or a tag that can be fetched. */
+interface ResolvedPin {
+    kind: 'commit' | 'tag';
+    /** Full commit SHA or tag name. */
+    name: string;
+}
 
 export class GitManager {
-    constructor(private logger: vscode.LogOutputChannel) { }
+    /** Clones whose integrity was checked in this session. */
+    private checkedRepositories = new Set<string>();
+    /** Legacy clone folders checked for a move to their current slug in this session. */
+    private migratedClones = new Set<string>();
+
+    constructor(private logger: Logger) { }
+
+    /**
+     * Clone or update the cached copy of a single rule source.
+     *
+     * @param pass Repositories already fetched during the current sync pass.
+     *             A clone found there is not fetched again, but this folder
+     *             still joins its sparse checkout.
+     * @returns The clone location, the checked-out commit and, when the source
+     *          does not specify a branch, the branch that was resolved. For
+     *          pinned sources, `resolvedRef` names the tag or commit the
+     *          `ref` resolved to. `offline` is set when the remote could not
+     *          be reached and the cached copy is used.
+     */
+    public async ensureRepository(source: RuleSource, config: RulesConfig, pass?: SyncPass): Promise<EnsuredRepository> {
+        const repoPath = this.getRepositoryPath(source, config);
+        const key = `${repoPath}#${source.branch}#${source.ref ?? ''}`;
+        const ensured = pass?.get(key);
+        if (ensured) {
+            const release = await this.acquireLock(repoPath);
+            try {
+                await this.updateSparseCheckout(repoPath, source, config);
+            } finally {
+                await this.releaseLock(release);
+            }
+            return ensured;
+        }
 
-    public async ensureRepository(config: RulesConfig): Promise<{ repoPath: string; actualBranch?: string }> {
-        const repoPath = this.getRepositoryPath(config);
+        const repository = await this.fetchAndCheckout(source, config, repoPath);
+        pass?.set(key, repository);
+        return repository;
+    }
 
+    private async fetchAndCheckout(source: RuleSource, config: RulesConfig, repoPath: string): Promise<EnsuredRepository> {
         // Ensure cache directory exists before acquiring lock
         await fs.mkdir(path.dirname(repoPath), { recursive: true });
+        await this.migrateLegacyClone(source, repoPath);
 
         // Acquire file lock to prevent concurrent operations
         const release = await this.acquireLock(repoPath);
 
         try {
-            const repoExists = await this.repositoryExists(repoPath);
+            const repoExists = await this.ensureHealthyRepository(repoPath) && await this.ensureRemote(repoPath, source.repoUrl);
             let actualBranch: string | undefined;
+            let resolvedRef: string | undefined;
+            let offline = false;
 
-            if (!repoExists) {
+            if (source.ref) {
+                ({ resolvedRef, offline } = await this.checkoutPinnedRef(source.repoUrl, source.ref, repoPath, repoExists, config.sparseCheckout !== false));
+            } else if (!repoExists) {
                 this.logger.info(`Cloning repository for the first time to ${repoPath}`);
-                actualBranch = await this.cloneRepository(config, repoPath);
+                actualBranch = await this.cloneRepository(source, repoPath, config.sparseCheckout !== false);
             } else {
                 this.logger.info(`Repository exists, fetching updates`);
-                await this.fetchRepository(config, repoPath);
+                const fetched = await this.fetchRepository(source, repoPath);
+                offline = fetched.offline;
 
-                // Get current branch if we need to update config
-                if (!config.branch) {
-                    const repoGit = simpleGit(repoPath);
-                    actualBranch = (await repoGit.revparse(['--abbrev-ref', 'HEAD'])).trim();
+                // The clone's local branch may be another folder's; report the branch that was checked out
+                if (!source.branch) {
+                    actualBranch = fetched.branch;
                 }
             }
+            await this.updateSparseCheckout(repoPath, source, config);
 
-            return { repoPath, actualBranch };
+            const commit = (await simpleGit(repoPath).revparse(['HEAD'])).trim();
+            await this.writeCacheMetadata(repoPath, source.repoUrl);
+            return { repoPath, commit, actualBranch, resolvedRef, offline };
+        } catch (error) {
+            // Check the clone again on the next sync: the failure may come from corruption
+            this.checkedRepositories.delete(repoPath);
+            throw error;
         } finally {
             await this.releaseLock(release);
         }
     }
 
-    public getRepositoryPath(config: RulesConfig): string {
-        const repoSlug = this.generateRepoSlug(config.repoUrl);
-        return path.join(config.cacheDirPath, repoSlug);
+    public getRepositoryPath(source: RuleSource, config: RulesConfig): string {
+        return path.join(config.cacheDirPath, repoSlug(source.repoUrl));
+    }
+
+    /**
+     * Return the commit currently checked out in the cached clone of a source,
+     * or `undefined` when the source has not been cloned yet.
+     */
+    public async getResolvedCommit(source: RuleSource, config: RulesConfig): Promise<string | undefined> {
+        const repoPath = this.getRepositoryPath(source, config);
+        if (!await this.repositoryExists(repoPath)) {
+            return undefined;
+        }
+        try {
+            return (await simpleGit(repoPath).revparse(['HEAD'])).trim();
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Return the commit of a source's cached clone if it is checked out at what
+     * the source tracks: the commit last synced for it, or for a branch, the
+     * cached tip of that branch. Workspace folders sharing the clone move its
+     * `HEAD`, so `undefined` is returned while it holds another branch or ref.
+     */
+    public async getCachedCommit(source: RuleSource, config: RulesConfig, syncedCommit?: string): Promise<string | undefined> {
+        const head = await this.getResolvedCommit(source, config);
+        if (!head || head === syncedCommit) {
+            return head;
+        }
+        if (source.ref) {
+            return undefined;
+        }
+        const git = simpleGit(this.getRepositoryPath(source, config));
+        const branch = source.branch || await this.getDefaultBranch(git);
+        return await this.revParseOrUndefined(git, `refs/remotes/origin/${branch}`) === head ? head : undefined;
+    }
+
+    /**
+     * List the commits in `from..to` of a cached clone, newest first. Clones
+     * are shallow, so the history back to `from` is fetched first when
+     * possible; without it only the commits already cached are listed.
+     *
+     * @returns At most {@link MAX_LOGGED_COMMITS} commits; empty when the
+     *          history cannot be read.
+     */
+    public async getCommitLog(repoPath: string, from: string, to: string): Promise<CommitSummary[]> {
+        const release = await this.acquireLock(repoPath);
+        try {
+            const git = simpleGit(repoPath);
+            const since = await git.raw(['show', '-s', '--format=%cI', from]).catch(() => '');
+            if (since.trim()) {
+                try {
+                    await git.fetch([`--shallow-since=${since.trim()}`]);
+                } catch (error) {
+                    this.logger.debug(`Could not fetch history since ${from.substring(0, 8)}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+
+            const output = await git.raw(['log', `--max-count=${MAX_LOGGED_COMMITS}`, '--format=%H%x1f%an%x1f%s', `${from}..${to}`]);
+            return output.split('\n').filter(Boolean).map(line => {
+                const [sha = '', author = '', subject = ''] = line.split('\x1f');
+                return { sha, author, subject };
+            });
+        } catch (error) {
+            this.logger.warn(`Could not list commits ${from.substring(0, 8)}..${to.substring(0, 8)}: ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+        } finally {
+            await this.releaseLock(release);
+        }
+    }
+
+    /**
+     * Check that `commit` has a good signature by one of `allowedSigners`
+     * (see `signatures.ts`).
+     */
+    public async verifyCommit(repoPath: string, commit: string, allowedSigners: string[]): Promise<SignatureCheck> {
+        // Git only checks SSH signatures with an allowed-signers file. It is kept
+        // empty: keys are matched against `allowedSigners` by fingerprint instead.
+        const signersFile = path.join(repoPath, '.git', 'ai-rules-allowed-signers');
+        try {
+            await fs.writeFile(signersFile, '', { flag: 'a' });
+            const output = await simpleGit({ baseDir: repoPath, config: [`gpg.ssh.allowedSignersFile=${signersFile}`] })
+                .raw(['log', '-1', `--format=${SIGNATURE_FORMAT}`, commit]);
+            return evaluateSignature(output, allowedSigners);
+        } catch (error) {
+            this.logger.error(`Failed to check the signature of ${commit.substring(0, 8)}`, error);
+            return { verified: false, reason: `the signature could not be checked: ${error instanceof Error ? error.message : String(error)}` };
+        }
+    }
+
+    /** Attach the signature check of the commit when `signatureVerification` is enabled. */
+    public async withSignature(checkout: SourceCheckout, config: RulesConfig): Promise<SourceCheckout> {
+        if ((config.signatureVerification ?? 'off') === 'off') {
+            return checkout;
+        }
+        const signature = checkout.commit
+            ? await this.verifyCommit(checkout.repoPath, checkout.commit, config.allowedSigners ?? [])
+            : { verified: false, reason: 'the cached commit is unknown' };
+        return { ...checkout, signature };
+    }
+
+    /**
+     * List the clones in a cache directory, most recently used first. Only
+     * folders carrying our {@link CACHE_METADATA_FILE} count: the default cache
+     * directory is shared with other tools, whose repositories are left alone.
+     */
+    public async listCachedRepositories(cacheDirPath: string): Promise<CachedRepository[]> {
+        let entries;
+        try {
+            entries = await fs.readdir(cacheDirPath, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+
+        const repositories: CachedRepository[] = [];
+        for (const entry of entries) {
+            const repoPath = path.join(cacheDirPath, entry.name);
+            // Lock folders of proper-lockfile sit next to the clones
+            if (!entry.isDirectory() || entry.name.endsWith('.lock') || !await this.repositoryExists(repoPath)) {
+                continue;
+            }
+            const metadata = await this.readCacheMetadata(repoPath);
+            if (metadata) {
+                repositories.push({ slug: entry.name, repoPath, ...metadata, size: await directorySize(repoPath) });
+            }
+        }
+        return repositories.sort((a, b) => b.lastUsed.getTime() - a.lastUsed.getTime());
+    }
+
+    /** Delete a cached clone once no other sync is using it. */
+    public async removeCachedRepository(repoPath: string): Promise<void> {
+        const release = await this.acquireLock(repoPath);
+        try {
+            await fs.rm(repoPath, { recursive: true, force: true });
+            this.checkedRepositories.delete(repoPath);
+            this.logger.info(`Removed cached repository ${repoPath}`);
+        } finally {
+            await this.releaseLock(release);
+        }
+    }
+
+    /**
+     * Delete clones that no sync has used for `retentionDays` days.
+     *
+     * @param inUse Clones of the current configuration; never removed.
+     * @returns The removed clones.
+     */
+    public async pruneCache(cacheDirPath: string, retentionDays: number, inUse: ReadonlySet<string>): Promise<CachedRepository[]> {
+        const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+        const removed: CachedRepository[] = [];
+        for (const repository of await this.listCachedRepositories(cacheDirPath)) {
+            if (inUse.has(repository.repoPath) || repository.lastUsed.getTime() >= cutoff) {
+                continue;
+            }
+            try {
+                await this.removeCachedRepository(repository.repoPath);
+                removed.push(repository);
+            } catch (error) {
+                this.logger.warn(`Could not prune cached repository ${repository.repoPath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Whether a usable clone exists at `repoPath`. Once per session the clone
+     * is checked with `git fsck`; corrupt clones and leftovers of an
+     * interrupted clone are deleted so they are cloned again.
+     */
+    private async ensureHealthyRepository(repoPath: string): Promise<boolean> {
+        if (!await this.repositoryExists(repoPath)) {
+            // An interrupted clone may leave files behind that block a new clone
+            await fs.rm(repoPath, { recursive: true, force: true });
+            return false;
+        }
+        if (this.checkedRepositories.has(repoPath)) {
+            return true;
+        }
+
+        try {
+            const git = simpleGit(repoPath);
+            await git.revparse(['--verify', 'HEAD^{commit}']);
+            await git.raw(['fsck', '--connectivity-only', '--no-dangling', '--no-progress']);
+            this.checkedRepositories.add(repoPath);
+            return true;
+        } catch (error) {
+            this.logger.warn(`Cached clone ${repoPath} is corrupt or incomplete, cloning it again: ${error instanceof Error ? error.message : String(error)}`);
+            await fs.rm(repoPath, { recursive: true, force: true });
+            return false;
+        }
+    }
+
+    /**
+     * Make `origin` of a clone point at the configured URL. Another spelling
+     * of the same repository (e.g. SSH instead of HTTPS) is repaired with
+     * `remote set-url`; a clone of a different repository is deleted so it
+     * is cloned again.
+     *
+     * @returns Whether the clone can be used.
+     */
+    private async ensureRemote(repoPath: string, repoUrl: string): Promise<boolean> {
+        const git = simpleGit(repoPath);
+        const remoteUrl = (await git.raw(['config', '--get', 'remote.origin.url']).catch(() => '')).trim();
+        if (remoteUrl === repoUrl) {
+            return true;
+        }
+        if (remoteUrl && isSameRepository(remoteUrl, repoUrl)) {
+            this.logger.info(`Updating the remote of ${repoPath} from ${remoteUrl} to ${repoUrl}`);
+            await git.remote(['set-url', 'origin', repoUrl]);
+            return true;
+        }
+
+        this.logger.warn(`Cached clone ${repoPath} belongs to ${remoteUrl || 'an unknown remote'} instead of ${repoUrl}, cloning it again`);
+        await fs.rm(repoPath, { recursive: true, force: true });
+        this.checkedRepositories.delete(repoPath);
+        return false;
+    }
+
+    /**
+     * Move the clone of a source from its former `<org>-<repo>` folder, which
+     * dropped the host, to `repoPath`. Only that folder is considered, and only
+     * when its remote is the source's repository: other folders in a shared
+     * cache directory belong to other tools. Runs once per folder and session.
+     */
+    private async migrateLegacyClone(source: RuleSource, repoPath: string): Promise<void> {
+        const legacyPath = path.join(path.dirname(repoPath), legacyRepoSlug(source.repoUrl));
+        if (legacyPath === repoPath || this.migratedClones.has(legacyPath)) {
+            return;
+        }
+        this.migratedClones.add(legacyPath);
+        if (!await this.repositoryExists(legacyPath)) {
+            return;
+        }
+
+        const legacyName = path.basename(legacyPath);
+        const remoteUrl = (await simpleGit(legacyPath).raw(['config', '--get', 'remote.origin.url']).catch(() => '')).trim();
+        if (!remoteUrl || !isSameRepository(remoteUrl, source.repoUrl)) {
+            return;
+        }
+        if (await fs.stat(repoPath).then(() => true, () => false)) {
+            this.logger.info(`Not moving cached clone ${legacyName} of ${remoteUrl}: ${path.basename(repoPath)} already exists`);
+            return;
+        }
+
+        try {
+            const release = await this.acquireLock(legacyPath);
+            try {
+                await fs.rename(legacyPath, repoPath);
+                this.logger.info(`Moved cached clone of ${remoteUrl} from ${legacyName} to ${path.basename(repoPath)}`);
+            } finally {
+                await this.releaseLock(release);
+            }
+        } catch (error) {
+            this.logger.warn(`Could not move cached clone ${legacyName}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async writeCacheMetadata(repoPath: string, repoUrl: string): Promise<void> {
+        try {
+            const metadata = { version: 1, repoUrl, lastUsed: new Date().toISOString() };
+            await fs.writeFile(path.join(repoPath, '.git', CACHE_METADATA_FILE), JSON.stringify(metadata, null, 2), 'utf-8');
+        } catch (error) {
+            this.logger.warn(`Could not record the use of ${repoPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Metadata of a clone; `undefined` for repositories we did not clone.
+     * Clones of older versions get it with their next sync.
+     */
+    private async readCacheMetadata(repoPath: string): Promise<Pick<CachedRepository, 'repoUrl' | 'lastUsed'> | undefined> {
+        try {
+            const metadata = JSON.parse(await fs.readFile(path.join(repoPath, '.git', CACHE_METADATA_FILE), 'utf-8'));
+            if (metadata?.version === 1 && typeof metadata.repoUrl === 'string' && !Number.isNaN(Date.parse(metadata.lastUsed))) {
+                return { repoUrl: metadata.repoUrl, lastUsed: new Date(metadata.lastUsed) };
+            }
+        } catch { }
+        return undefined;
     }
 
     private async repositoryExists(repoPath: string): Promise<boolean> {
@@ -61,18 +434,22 @@ export class GitManager {
         }
     }
 
-    private async cloneRepository(config: RulesConfig, repoPath: string): Promise<string> {
+    private async cloneRepository(source: RuleSource, repoPath: string, sparse: boolean): Promise<string> {
         // Cache directory already ensured in ensureRepository
 
         const git = simpleGit();
         const cloneOptions = ['--depth=1'];
+        if (sparse) {
+            // Blobs are fetched on demand; only root files are checked out until the sparse set is applied
+            cloneOptions.push('--filter=blob:none', '--sparse');
+        }
 
-        if (config.branch) {
-            cloneOptions.push('--branch', config.branch);
+        if (source.branch) {
+            cloneOptions.push('--branch', source.branch);
         }
 
         try {
-            await git.clone(config.repoUrl, repoPath, cloneOptions);
+            await git.clone(source.repoUrl, repoPath, cloneOptions);
             this.logger.info(`Successfully cloned repository to ${repoPath}`);
 
             // Get the actual branch that was cloned
@@ -86,39 +463,241 @@ export class GitManager {
         }
     }
 
-    private async fetchRepository(config: RulesConfig, repoPath: string): Promise<void> {
+    /**
+     * Fetch the tracked branch and reset the clone to it. The clone is shallow
+     * and single-branch while workspace folders sharing it may track other
+     * branches, so the branch is fetched with an explicit refspec.
+     *
+     * @returns The remote branch that was tracked, and whether the fetch
+     *          failed and the cached copy of that branch is used.
+     * @throws When the branch does not exist on the remote, or the remote is
+     *         unreachable and the branch was never fetched.
+     */
+    private async fetchRepository(source: RuleSource, repoPath: string): Promise<{ branch: string; offline: boolean }> {
         const git = simpleGit(repoPath);
+        const remoteBranch = source.branch || await this.getDefaultBranch(git);
+        const trackingRef = `refs/remotes/origin/${remoteBranch}`;
 
+        let offline = false;
         try {
-            // Get current HEAD commit before fetch
-            const currentCommit = await git.revparse(['HEAD']);
+            await git.fetch(['--depth=1', 'origin', `+refs/heads/${remoteBranch}:${trackingRef}`]);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (/couldn't find remote ref/i.test(message)) {
+                throw new Error(`Branch '${remoteBranch}' does not exist in ${source.repoUrl}`);
+            }
+            this.logger.error('Failed to fetch repository updates', error);
+
+            // Offline, the cached copy may only be used if it holds this branch
+            if (!await this.revParseOrUndefined(git, trackingRef)) {
+                throw new Error(`Git fetch failed and branch '${remoteBranch}' is not cached: ${message}`);
+            }
+            this.logger.warn('Using existing cached copy due to fetch failure');
+            offline = true;
+        }
 
-            // Fetch latest changes
-            await git.fetch(['--depth=1']);
+        const currentCommit = await this.revParseOrUndefined(git, 'HEAD');
+        const remoteCommit = (await git.revparse([trackingRef])).trim();
+        if (currentCommit !== remoteCommit) {
+            this.logger.info(`Updating ${remoteBranch} from ${currentCommit?.substring(0, 8) ?? '(none)'} to ${remoteCommit.substring(0, 8)}`);
+            await git.reset(['--hard', remoteCommit]);
+        } else {
+            this.logger.info('Repository is already up to date');
+        }
+        return { branch: remoteBranch, offline };
+    }
 
-            // Get latest commit from the remote branch
-            const remoteBranch = config.branch || await this.getDefaultBranch(git);
-            const remoteCommit = await git.revparse([`origin/${remoteBranch}`]);
+    /**
+     * Check out the commit a pinned `ref` (full commit SHA, exact tag or
+     * semver range over the repository's tags) resolves to, fetching exactly
+     * that ref with depth 1. Fetched tags are kept locally so a pin can still
+     * be resolved from the cache when the remote is unreachable.
+     *
+     * @returns The tag or commit SHA the ref resolved to, and whether a
+     *          cached tag was used because the fetch failed.
+     */
+    private async checkoutPinnedRef(repoUrl: string, ref: string, repoPath: string, repoExists: boolean, sparse: boolean): Promise<{ resolvedRef: string; offline: boolean }> {
+        if (!repoExists) {
+            this.logger.info(`Initialising repository for pinned ref ${ref} at ${repoPath}`);
+            await fs.mkdir(repoPath, { recursive: true });
+        }
+
+        const git = simpleGit(repoPath);
+        try {
+            if (!repoExists) {
+                await git.init();
+                await git.addRemote('origin', repoUrl);
+                if (sparse) {
+                    // Same layout as a `--filter=blob:none --sparse` clone
+                    await git.addConfig('remote.origin.promisor', 'true');
+                    await git.addConfig('remote.origin.partialclonefilter', 'blob:none');
+                    await git.raw(['sparse-checkout', 'set', '--cone']);
+                }
+            }
 
-            if (currentCommit !== remoteCommit) {
-                this.logger.info(`New commits available, updating from ${currentCommit.substring(0, 8)} to ${remoteCommit.substring(0, 8)}`);
+            const pin = await this.resolvePinnedRef(git, ref);
+            const { commit: target, offline } = await this.fetchPinnedRef(git, pin);
+            const currentCommit = await this.revParseOrUndefined(git, 'HEAD');
 
-                // Reset to the latest remote commit
-                await git.reset(['--hard', `origin/${remoteBranch}`]);
+            if (currentCommit !== target) {
+                this.logger.info(`Checking out ${pin.name} (${target.substring(0, 8)}) for pinned ref ${ref}`);
+                await git.reset(['--hard', target]);
             } else {
-                this.logger.info('Repository is already up to date');
+                this.logger.info(`Repository is already at ${pin.name}`);
             }
+            return { resolvedRef: pin.name, offline };
         } catch (error) {
-            this.logger.error('Failed to fetch repository updates', error);
+            this.logger.error(`Failed to check out pinned ref ${ref}`, error);
+            if (!repoExists) {
+                await fs.rm(repoPath, { recursive: true, force: true });
+            }
+            throw new Error(`Git ${repoExists ? 'fetch' : 'clone'} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
 
-            // If fetch fails but we have a local copy, continue with offline behavior
-            const hasLocalCopy = await this.repositoryExists(repoPath);
-            if (hasLocalCopy) {
-                this.logger.warn('Using existing cached copy due to fetch failure');
+    /**
+     * Record what this workspace needs from the clone and narrow the working
+     * tree to the union over all workspaces sharing it (see
+     * `sparseCheckout.ts`). Best effort: on failure, e.g. when blobs of a
+     * newly added team cannot be fetched offline, the checkout is kept as is.
+     */
+    private async updateSparseCheckout(repoPath: string, source: RuleSource, config: RulesConfig): Promise<void> {
+        const git = simpleGit(repoPath);
+        try {
+            const registryPath = path.join(repoPath, '.git', SPARSE_REGISTRY_FILE);
+            const registry = await this.readSparseRegistry(registryPath);
+            await pruneConsumers(registry, folderPath => fs.stat(folderPath).then(() => true, () => false));
+            const folder = config.workspaceFolderPath ?? config.rulesFolderPath;
+            registry.consumers[`${folder}#${source.destination}`] = {
+                folder,
+                teamNames: config.sparseCheckout === false ? undefined : [...source.teamNames].sort(),
+                lastUsed: new Date().toISOString()
+            };
+            await fs.writeFile(registryPath, JSON.stringify(registry, null, 2), 'utf-8');
+
+            const paths = computeSparsePaths(await this.listCategories(git, repoPath), Object.values(registry.consumers));
+            const isSparse = (await git.raw(['config', '--bool', '--default', 'false', 'core.sparseCheckout'])).trim() === 'true';
+            if (!paths) {
+                if (isSparse) {
+                    this.logger.info('Checking out the whole repository');
+                    await git.raw(['sparse-checkout', 'disable']);
+                }
                 return;
             }
 
-            throw new Error(`Git fetch failed: ${error instanceof Error ? error.message : String(error)}`);
+            const current = isSparse ? (await git.raw(['sparse-checkout', 'list'])).split('\n').filter(Boolean).sort() : undefined;
+            if (current?.join('\n') !== paths.join('\n')) {
+                this.logger.info(`Sparse checkout of ${paths.length ? paths.join(', ') : 'root files only'}`);
+                await git.raw(['sparse-checkout', 'set', '--cone', ...paths]);
+            }
+        } catch (error) {
+            this.logger.warn(`Could not update the sparse checkout of ${repoPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async readSparseRegistry(registryPath: string): Promise<SparseRegistry> {
+        try {
+            const registry = JSON.parse(await fs.readFile(registryPath, 'utf-8'));
+            if (registry?.version === 1 && registry.consumers && typeof registry.consumers === 'object') {
+                return registry as SparseRegistry;
+            }
+        } catch { }
+        return { version: 1, consumers: {} };
+    }
+
+    /**
+     * Categories of the checked-out commit: those declared in `ai-rules.json`
+     * (a root file, so always checked out) or the non-hidden top-level folders,
+     * listed from the commit because a sparse working tree lacks them.
+     */
+    private async listCategories(git: SimpleGit, repoPath: string): Promise<RepoCategory[]> {
+        const manifest = await readRepoManifest(repoPath);
+        if (manifest) {
+            return manifest.categories;
+        }
+        const output = await git.raw(['ls-tree', '-d', '-z', '--name-only', 'HEAD']);
+        return output.split('\0')
+            .filter(name => name && !name.startsWith('.'))
+            .map(name => ({ path: name, type: inferCategoryType(name), destination: name }));
+    }
+
+    private async resolvePinnedRef(git: SimpleGit, ref: string): Promise<ResolvedPin> {
+        if (/^[0-9a-f]{40}$/i.test(ref)) {
+            return { kind: 'commit', name: ref.toLowerCase() };
+        }
+
+        const tags = await this.listTags(git);
+        if (tags.includes(ref)) {
+            return { kind: 'tag', name: ref };
+        }
+
+        if (semver.validRange(ref, { loose: true })) {
+            // Map each version to the first tag spelling it (e.g. 'v2.1.0' or '2.1.0')
+            const tagsByVersion = new Map<string, string>();
+            for (const tag of tags) {
+                const version = semver.clean(tag, { loose: true });
+                if (version && !tagsByVersion.has(version)) {
+                    tagsByVersion.set(version, tag);
+                }
+            }
+
+            const best = semver.maxSatisfying([...tagsByVersion.keys()], ref, { loose: true });
+            if (!best) {
+                throw new Error(`No tag satisfies version range '${ref}'`);
+            }
+            this.logger.info(`Resolved version range ${ref} to tag ${tagsByVersion.get(best)}`);
+            return { kind: 'tag', name: tagsByVersion.get(best)! };
+        }
+
+        throw new Error(`Ref '${ref}' is neither a full commit SHA, an existing tag nor a semver range`);
+    }
+
+    /** List the remote's tags, falling back to the tags cached locally when offline. */
+    private async listTags(git: SimpleGit): Promise<string[]> {
+        try {
+            const output = await git.raw(['ls-remote', '--tags', '--refs', 'origin']);
+            return output.split('\n')
+                .map(line => line.split('\t')[1]?.trim().replace(/^refs\/tags\//, ''))
+                .filter((tag): tag is string => !!tag);
+        } catch (error) {
+            this.logger.warn(`Could not list remote tags, resolving against cached tags: ${error instanceof Error ? error.message : String(error)}`);
+            const output = await git.raw(['tag', '--list']);
+            return output.split('\n').map(tag => tag.trim()).filter(Boolean);
+        }
+    }
+
+    /**
+     * Fetch a resolved pin with depth 1 and return the commit it points to;
+     * `offline` when the fetch failed and a cached tag is used.
+     */
+    private async fetchPinnedRef(git: SimpleGit, pin: ResolvedPin): Promise<{ commit: string; offline: boolean }> {
+        if (pin.kind === 'commit') {
+            // A commit never changes, so no fetch is needed once it is cached
+            if (!await this.revParseOrUndefined(git, `${pin.name}^{commit}`)) {
+                await git.fetch(['--depth=1', 'origin', pin.name]);
+            }
+            return { commit: pin.name, offline: false };
+        }
+
+        const tagRef = `refs/tags/${pin.name}`;
+        let offline = false;
+        try {
+            await git.fetch(['--depth=1', 'origin', `+${tagRef}:${tagRef}`]);
+        } catch (error) {
+            if (!await this.revParseOrUndefined(git, `${tagRef}^{commit}`)) {
+                throw error;
+            }
+            this.logger.warn(`Using cached tag ${pin.name} due to fetch failure`);
+            offline = true;
+        }
+        return { commit: (await git.revparse([`${tagRef}^{commit}`])).trim(), offline };
+    }
+
+    private async revParseOrUndefined(git: SimpleGit, rev: string): Promise<string | undefined> {
+        try {
+            return (await git.revparse(['--verify', '--quiet', rev])).trim() || undefined;
+        } catch {
+            return undefined;
         }
     }
 
@@ -147,27 +726,6 @@ export class GitManager {
         return 'main';
     }
 
-    private generateRepoSlug(repoUrl: string): string {
-        try {
-            if (repoUrl.startsWith('http')) {
-                const u = new URL(repoUrl);
-                const parts = u.pathname.replace(/\.git$/, '').split('/').filter(Boolean);
-                const org = parts.at(-2) ?? 'repo';
-                const repo = parts.at(-1) ?? 'unknown';
-                return `${org}-${repo}`.replace(/[^a-zA-Z0-9-_]/g, '-');
-            }
-
-            // Handle SSH URLs like git@github.com:org/repo.git
-            const m = repoUrl.match(/^[\w.-]+@[^:]+:([^/]+)\/([^/]+?)(?:\.git)?$/);
-            if (m) {
-                return `${m[1]}-${m[2]}`.replace(/[^a-zA-Z0-9-_]/g, '-');
-            }
-        } catch { }
-
-        // Fallback to base64url encoding for safety
-        return Buffer.from(repoUrl).toString('base64url').slice(0, 32);
-    }
-
     private async acquireLock(lockTargetPath: string): Promise<() => Promise<void>> {
         await fs.mkdir(path.dirname(lockTargetPath), { recursive: true });
         try {
@@ -191,4 +749,18 @@ export class GitManager {
     public dispose(): void {
         // No cleanup needed with proper-lockfile
     }
-}
\ No newline at end of file
+}
+
+/** Total size of the files below a directory. */
+async function directorySize(dir: string): Promise<number> {
+    let size = 0;
+    for (const entry of await fs.readdir(dir, { withFileTypes: true }).catch(() => [])) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            size += await directorySize(entryPath);
+        } else if (entry.isFile()) {
+            size += (await fs.stat(entryPath).catch(() => undefined))?.size ?? 0;
+        }
+    }
+    return size;
+}
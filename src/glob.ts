@@ -0,0 +1,129 @@
+/**
+ * Glob matching for rule `globs` and path filters.
+ * Supports `*`, `?`, `**`, `{a,b}` alternatives and `[...]` character classes
+ * on forward-slash relative paths. Like Cursor, a glob without a `/` matches
+ * the file name in any folder (`*.ts` matches `src/app.ts`).
+ */
+
+const regExpCache = new Map<string, RegExp>();
+
+/** Whether `relPath` (forward slashes, relative) matches `glob`. */
+export function matchesGlob(glob: string, relPath: string): boolean {
+    const pattern = glob.trim().replace(/^\.?\//, '');
+    if (!pattern) {
+        return false;
+    }
+    const subject = pattern.includes('/') ? relPath : relPath.slice(relPath.lastIndexOf('/') + 1);
+    return globToRegExp(pattern).test(subject);
+}
+
+/** Whether any of `relPaths` matches any of `globs`. */
+export function matchesAnyPath(globs: string[], relPaths: Iterable<string>): boolean {
+    for (const relPath of relPaths) {
+        if (globs.some(glob => matchesGlob(glob, relPath))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Whether `glob` matches `relPath` or one of its parent folders, so that
+ * `role` or `role/**` both select everything below `role/`.
+ */
+export function matchesPathOrParent(glob: string, relPath: string): boolean {
+    const segments = relPath.split('/');
+    for (let length = segments.length; length > 0; length--) {
+        if (matchesGlob(glob, segments.slice(0, length).join('/'))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Check a user-supplied glob.
+ *
+ * @returns A description of the problem, or `undefined` when the glob is valid.
+ */
+export function validateGlob(glob: string): string | undefined {
+    const pattern = glob.trim();
+    if (!pattern) {
+        return 'pattern is empty';
+    }
+    if (pattern.startsWith('/') || /^[A-Za-z]:/.test(pattern) || pattern.includes('\\')) {
+        return 'pattern must be a relative path with forward slashes';
+    }
+    if (pattern.split('/').includes('..')) {
+        return "pattern must not contain '..'";
+    }
+
+    let braceDepth = 0;
+    for (let index = 0; index < pattern.length; index++) {
+        const char = pattern[index];
+        if (char === '[') {
+            const close = pattern.indexOf(']', index + 2);
+            if (close === -1) {
+                return "unclosed '['";
+            }
+            index = close;
+        } else if (char === '{') {
+            braceDepth++;
+        } else if (char === '}') {
+            if (--braceDepth < 0) {
+                return "unmatched '}'";
+            }
+        }
+    }
+    return braceDepth > 0 ? "unclosed '{'" : undefined;
+}
+
+/** Translate a glob into an anchored regular expression. */
+export function globToRegExp(glob: string): RegExp {
+    const cached = regExpCache.get(glob);
+    if (cached) {
+        return cached;
+    }
+
+    let source = '';
+    let braceDepth = 0;
+    for (let index = 0; index < glob.length; index++) {
+        const char = glob[index]!;
+        if (char === '*') {
+            if (glob[index + 1] === '*') {
+                // '**/' also matches no folder at all
+                const slash = glob[index + 2] === '/';
+                source += slash ? '(?:.*/)?' : '.*';
+                index += slash ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const close = glob.indexOf(']', index + 2);
+            if (close === -1) {
+                source += '\\[';
+            } else {
+                const body = glob.slice(index + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                source += `[${body}]`;
+                index = close;
+            }
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|\\\]{}]/g, '\\$&');
+        }
+    }
+    source += ')'.repeat(braceDepth);
+
+    const regExp = new RegExp(`^${source}$`);
+    regExpCache.set(glob, regExp);
+    return regExp;
+}
@@ -0,0 +1,9 @@
+/**
+ * Logging used by the services that run both in the extension and in the
+ * command line interface: the extension passes its output channel, the CLI
+ * a logger writing to stdout.
+ */
+import * as vscode from 'vscode';
+
+/** The methods of a `vscode.LogOutputChannel` the services log with. */
+export type Logger = Pick<vscode.LogOutputChannel, 'trace' | 'debug' | 'info' | 'warn' | 'error'>;
@@ -0,0 +1,201 @@
+/**
+ * Output adapters for AI assistants other than Cursor.
+ * Renders the synced `.mdc` rules into the instruction formats of other
+ * assistants so every tool follows the same rules. Cursor's frontmatter is
+ * translated per target:
+ *   • `alwaysApply` rules are inlined into the main instructions file.
+ *   • `globs` rules become Copilot `.instructions.md` files with `applyTo`,
+ *     or inlined sections naming the file patterns for single-file targets.
+ *   • Rules with only a `description` (agent-requested) or no attributes
+ *     (manual) are listed by path so the assistant reads them on demand.
+ * Single-file targets may also contain the team's own notes, so only the
+ * block between {@link BLOCK_BEGIN} and {@link BLOCK_END} is managed.
+ * All paths are relative to the workspace folder and use forward slashes.
+ */
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { OutputTarget } from './rulesConfig';
+import { RuleMetadata, getRuleType } from './frontmatter';
+
+export const BLOCK_BEGIN = '<!-- ai-rules-syncer:begin (generated from synced rules, edits inside this block are overwritten) -->';
+export const BLOCK_END = '<!-- ai-rules-syncer:end -->';
+
+/** First line after the frontmatter of every fully generated file. */
+export const GENERATED_FILE_MARKER = '<!-- Generated by AI Rules Syncer; do not edit. -->';
+
+/** Folder receiving Copilot's per-rule instruction files. */
+const COPILOT_INSTRUCTIONS_DIR = '.github/instructions';
+
+/** A synced rule after frontmatter parsing. */
+export interface RuleDocument {
+    /** Path relative to the rules folder. */
+    relPath: string;
+    metadata: RuleMetadata;
+    body: string;
+}
+
+export interface GeneratedOutput {
+    /** Path relative to the workspace folder. */
+    path: string;
+    /**
+     * `block`: content is merged into a file that may hold other text;
+     * `file`: the whole file is generated.
+     */
+    kind: 'block' | 'file';
+    content: string;
+}
+
+/** Main instruction file of each single-file target. */
+const INSTRUCTION_FILES: Record<OutputTarget, string> = {
+    copilot: '.github/copilot-instructions.md',
+    claude: 'CLAUDE.md',
+    windsurf: '.windsurfrules',
+    agents: 'AGENTS.md'
+};
+
+/**
+ * Render the outputs of all enabled targets.
+ *
+ * @param rules       Synced rules, in any order.
+ * @param targets     Enabled output targets.
+ * @param rulesFolder Rules folder relative to the workspace folder, used to
+ *                    reference rules that are read on demand.
+ */
+export function renderOutputs(rules: RuleDocument[], targets: OutputTarget[], rulesFolder: string): GeneratedOutput[] {
+    const sorted = [...rules].sort((a, b) => a.relPath.localeCompare(b.relPath));
+    const outputs: GeneratedOutput[] = [];
+
+    for (const target of targets) {
+        if (target === 'copilot') {
+            outputs.push(...renderCopilot(sorted, rulesFolder));
+        } else {
+            outputs.push({ path: INSTRUCTION_FILES[target], kind: 'block', content: renderInstructions(sorted, rulesFolder) });
+        }
+    }
+
+    return outputs;
+}
+
+/**
+ * Replace the managed block in `existing` with `block`, appending it when the
+ * file has none. Passing `undefined` removes the block.
+ */
+export function mergeManagedBlock(existing: string | undefined, block: string | undefined): string {
+    const current = existing ?? '';
+    const managed = block === undefined ? '' : `${BLOCK_BEGIN}\n${block.trim()}\n${BLOCK_END}\n`;
+
+    const begin = current.indexOf(BLOCK_BEGIN);
+    const end = begin === -1 ? -1 : current.indexOf(BLOCK_END, begin);
+    if (begin !== -1 && end !== -1) {
+        const before = current.slice(0, begin);
+        const after = current.slice(end + BLOCK_END.length).replace(/^\r?\n/, '');
+        const merged = before + managed + after;
+        // Removing the block must not leave the blank lines that separated it
+        return managed ? merged : merged.replace(/\n{3,}/g, '\n\n').replace(/\n+$/, '\n');
+    }
+
+    if (!managed) {
+        return current;
+    }
+    if (!current.trim()) {
+        return managed;
+    }
+    return `${current.replace(/\s*$/, '')}\n\n${managed}`;
+}
+
+/**
+ * Copilot: `alwaysApply` rules go into `copilot-instructions.md`, every other
+ * rule into its own `.instructions.md` file. Glob rules get `applyTo` and
+ * agent-requested rules keep their `description`; manual rules carry neither
+ * and are only used when attached to a chat.
+ */
+function renderCopilot(rules: RuleDocument[], rulesFolder: string): GeneratedOutput[] {
+    const outputs: GeneratedOutput[] = [];
+    const always = rules.filter(rule => getRuleType(rule.metadata) === 'always');
+    outputs.push({ path: INSTRUCTION_FILES.copilot, kind: 'block', content: renderSections(always) });
+
+    // Flattening folders into the name lets `a/b.mdc` and `a-b.mdc` meet; such names get a path hash
+    const flatName = (rule: RuleDocument) => stripExtension(rule.relPath).replace(/\//g, '-');
+    const nameCounts = new Map<string, number>();
+    for (const rule of rules) {
+        nameCounts.set(flatName(rule), (nameCounts.get(flatName(rule)) ?? 0) + 1);
+    }
+
+    for (const rule of rules) {
+        if (getRuleType(rule.metadata) === 'always') {
+            continue;
+        }
+
+        const frontmatter: string[] = [];
+        if (rule.metadata.globs.length > 0) {
+            frontmatter.push(`applyTo: ${quote(rule.metadata.globs.map(toWorkspaceGlob).join(','))}`);
+        }
+        if (rule.metadata.description) {
+            frontmatter.push(`description: ${quote(rule.metadata.description)}`);
+        }
+
+        let name = flatName(rule);
+        if (nameCounts.get(name)! > 1) {
+            name += `-${createHash('sha256').update(rule.relPath).digest('hex').slice(0, 8)}`;
+        }
+        const header = frontmatter.length > 0 ? `---\n${frontmatter.join('\n')}\n---\n` : '';
+        outputs.push({
+            path: `${COPILOT_INSTRUCTIONS_DIR}/${name}.instructions.md`,
+            kind: 'file',
+            content: `${header}${GENERATED_FILE_MARKER}\n<!-- Source: ${path.posix.join(rulesFolder, rule.relPath)} -->\n\n${rule.body.trim()}\n`
+        });
+    }
+
+    return outputs;
+}
+
+/**
+ * Single-file targets (CLAUDE.md, AGENTS.md, .windsurfrules): always-applied
+ * and glob rules are inlined, the rest are listed for on-demand reading.
+ */
+function renderInstructions(rules: RuleDocument[], rulesFolder: string): string {
+    const inlined = rules.filter(rule => ['always', 'auto'].includes(getRuleType(rule.metadata)));
+    const onDemand = rules.filter(rule => !inlined.includes(rule));
+
+    let content = renderSections(inlined);
+    if (onDemand.length > 0) {
+        const items = onDemand.map(rule => {
+            const rulePath = path.posix.join(rulesFolder, rule.relPath);
+            return rule.metadata.description
+                ? `- \`${rulePath}\`: ${rule.metadata.description}`
+                : `- \`${rulePath}\` (only when explicitly requested)`;
+        });
+        content += `\n## Rules to read on demand\n\nRead these files when they are relevant to the task:\n\n${items.join('\n')}\n`;
+    }
+    return content;
+}
+
+function renderSections(rules: RuleDocument[]): string {
+    if (rules.length === 0) {
+        return '_No rules apply to every file._\n';
+    }
+    return rules.map(rule => {
+        const scope = rule.metadata.globs.length > 0 && !rule.metadata.alwaysApply
+            ? `Applies to files matching: ${rule.metadata.globs.map(glob => `\`${glob}\``).join(', ')}\n\n`
+            : '';
+        return `## ${stripExtension(rule.relPath)}\n\n${scope}${rule.body.trim()}\n`;
+    }).join('\n');
+}
+
+/**
+ * Cursor matches a glob without a slash against any folder; Copilot's
+ * `applyTo` is relative to the workspace root, so such globs are prefixed
+ * with a recursive wildcard.
+ */
+function toWorkspaceGlob(glob: string): string {
+    const trimmed = glob.replace(/^\.\//, '');
+    return trimmed.includes('/') ? trimmed : `**/${trimmed}`;
+}
+
+function stripExtension(relPath: string): string {
+    return relPath.replace(/\.mdc$/, '');
+}
+
+function quote(value: string): string {
+    return JSON.stringify(value);
+}
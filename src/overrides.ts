@@ -0,0 +1,119 @@
+/**
+ * Project-local overrides of synced rules.
+ * A workspace can commit an overrides file (`.ai-rules-overrides.json` by
+ * default) that adjusts the remote rules for the project without forking the
+ * rules repository:
+ *
+ *   {
+ *     "disable": ["general/legacy-logging.mdc", "language/java"],
+ *     "replace": { "general/testing.mdc": "docs/ai/testing.mdc" },
+ *     "append": { "general/style.mdc": "Use tabs in this project." }
+ *   }
+ *
+ * `disable` lists globs over rules-folder-relative paths; a glob matching a
+ * folder disables everything below it. `replace` maps a synced rule to a file
+ * relative to the workspace folder whose content is used instead. `append`
+ * adds project-specific text to the end of a synced rule. Overrides are
+ * applied by `FileSyncer` after the remote rules are collected, in that order.
+ */
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { validateGlob } from './glob';
+
+/** Default `overridesFile`, relative to the workspace folder. */
+export const DEFAULT_OVERRIDES_FILE = '.ai-rules-overrides.json';
+
+/** How a synced rule was changed by an override; disabled rules are not synced at all. */
+export type OverrideKind = 'replaced' | 'appended';
+
+export interface RuleOverrides {
+    /** Globs over rules-folder-relative paths of rules not to sync. */
+    disable: string[];
+    /** Rules-folder-relative path → workspace-relative file used instead. */
+    replace: Record<string, string>;
+    /** Rules-folder-relative path → text appended to the rule. */
+    append: Record<string, string>;
+}
+
+/**
+ * Read and validate an overrides file.
+ *
+ * @returns `undefined` when the file does not exist.
+ * @throws When the file is not valid JSON or does not match the schema.
+ */
+export async function readOverrides(filePath: string): Promise<RuleOverrides | undefined> {
+    let text: string;
+    try {
+        text = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+        if ((error as any).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return parseOverrides(raw);
+}
+
+/** Validate parsed overrides and normalise their paths. */
+export function parseOverrides(raw: unknown): RuleOverrides {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('must contain a JSON object');
+    }
+    const { disable = [], replace = {}, append = {} } = raw as Record<string, unknown>;
+
+    if (!Array.isArray(disable) || disable.some(glob => typeof glob !== 'string')) {
+        throw new Error('disable must be an array of globs');
+    }
+    for (const glob of disable as string[]) {
+        const problem = validateGlob(glob.trim());
+        if (problem) {
+            throw new Error(`disable: invalid glob '${glob}': ${problem}`);
+        }
+    }
+
+    return {
+        disable: (disable as string[]).map(glob => glob.trim()),
+        replace: parsePathMap(replace, 'replace', (target, value) => {
+            if (!isSafeRelativePath(value)) {
+                throw new Error(`replace.${target} must be a relative path inside the workspace folder`);
+            }
+            return normalizeRelativePath(value);
+        }),
+        append: parsePathMap(append, 'append', (target, value) => value)
+    };
+}
+
+function parsePathMap(raw: unknown, field: string, parseValue: (target: string, value: string) => string): Record<string, string> {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`${field} must be an object mapping rule paths to strings`);
+    }
+
+    const result: Record<string, string> = {};
+    for (const [target, value] of Object.entries(raw)) {
+        if (!isSafeRelativePath(target)) {
+            throw new Error(`${field}: '${target}' must be a path relative to the rules folder`);
+        }
+        if (typeof value !== 'string') {
+            throw new Error(`${field}.${target} must be a string`);
+        }
+        result[normalizeRelativePath(target)] = parseValue(target, value);
+    }
+    return result;
+}
+
+function normalizeRelativePath(value: string): string {
+    return path.posix.normalize(value.trim()).replace(/\/+$/, '');
+}
+
+function isSafeRelativePath(value: string): boolean {
+    const normalized = path.posix.normalize(value.trim());
+    return normalized !== '' && normalized !== '.' && !normalized.startsWith('/') && !value.includes('\\') &&
+        !normalized.split('/').includes('..');
+}
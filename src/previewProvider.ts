@@ -0,0 +1,35 @@
+/**
+ * Read-only documents for the "Show Effective Rules" preview.
+ * Serves the proposed content of rule files under the
+ * {@link PREVIEW_SCHEME} scheme so they can be compared with the files in
+ * the rules folder through `vscode.diff`.
+ */
+import * as vscode from 'vscode';
+
+export const PREVIEW_SCHEME = 'ai-rules-preview';
+
+export class PreviewContentProvider implements vscode.TextDocumentContentProvider {
+    private contents = new Map<string, string>();
+    private version = 0;
+
+    /**
+     * Register content and return the URI serving it. Each call yields a new
+     * URI, so an open diff never shows content of an earlier preview.
+     *
+     * @param label Path shown as the document name, e.g. `general/tone.mdc`.
+     */
+    public add(label: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/${label}`, query: `v=${++this.version}` });
+        this.contents.set(uri.toString(), content);
+        return uri;
+    }
+
+    /** Forget the content of previous previews. */
+    public clear(): void {
+        this.contents.clear();
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+}
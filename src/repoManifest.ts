@@ -0,0 +1,153 @@
+/**
+ * Repository manifest for rules repositories.
+ * A rules repository may ship an `ai-rules.json` at its root that declares
+ * how its folders are treated instead of relying on folder-name conventions:
+ *
+ *   {
+ *     "minExtensionVersion": "0.1.0",
+ *     "categories": [
+ *       { "path": "general", "type": "always" },
+ *       { "path": "stacks", "type": "language", "destination": "language" },
+ *       { "path": "personas", "type": "opt-in" },
+ *       { "path": "squads", "type": "team" }
+ *     ]
+ *   }
+ *
+ * Without a manifest the categories are inferred from the top-level folder
+ * names (see {@link inferCategoryType} and `FileSyncer`).
+ */
+import { readFileSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as semver from 'semver';
+
+/** File name of the manifest at the root of a rules repository. */
+export const REPO_MANIFEST_FILE = 'ai-rules.json';
+
+/**
+ * How a category is copied:
+ *   • `always`   – the whole folder (or file).
+ *   • `opt-in`   – only entries listed in `selectedRules` as `<path>/<name>`.
+ *   • `team`     – only the subfolders named in `teamNames`.
+ *   • `language` – the whole folder, filtered by `languageDetection`.
+ */
+export type CategoryType = 'always' | 'opt-in' | 'team' | 'language';
+
+const CATEGORY_TYPES: readonly CategoryType[] = ['always', 'opt-in', 'team', 'language'];
+
+export interface RepoCategory {
+    /** Folder (or file) inside the repository, forward slashes. */
+    path: string;
+    type: CategoryType;
+    /** Target inside the source's destination; defaults to `path`. */
+    destination: string;
+}
+
+export interface RepoManifest {
+    /** Oldest extension version that understands this repository. */
+    minExtensionVersion?: string;
+    categories: RepoCategory[];
+}
+
+/**
+ * Read and validate the manifest of a cached repository.
+ *
+ * @returns `undefined` when the repository has no manifest.
+ * @throws When the manifest is not valid JSON or does not match the schema.
+ */
+export async function readRepoManifest(repoPath: string): Promise<RepoManifest | undefined> {
+    let text: string;
+    try {
+        text = await fs.readFile(path.join(repoPath, REPO_MANIFEST_FILE), 'utf-8');
+    } catch (error) {
+        if ((error as any).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`${REPO_MANIFEST_FILE} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return parseRepoManifest(raw);
+}
+
+/** Validate a parsed manifest and fill in defaults. */
+export function parseRepoManifest(raw: unknown): RepoManifest {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`${REPO_MANIFEST_FILE} must contain a JSON object`);
+    }
+    const { minExtensionVersion, categories } = raw as Record<string, unknown>;
+
+    if (minExtensionVersion !== undefined && (typeof minExtensionVersion !== 'string' || !semver.valid(minExtensionVersion))) {
+        throw new Error(`${REPO_MANIFEST_FILE}: minExtensionVersion must be a semantic version such as "1.2.0"`);
+    }
+    if (!Array.isArray(categories)) {
+        throw new Error(`${REPO_MANIFEST_FILE}: categories must be an array`);
+    }
+
+    return {
+        minExtensionVersion,
+        categories: categories.map((entry, index) => parseCategory(entry, index))
+    };
+}
+
+/** Category of a top-level folder of a repository without a manifest. */
+export function inferCategoryType(folderName: string): CategoryType {
+    if (folderName.startsWith('team')) {
+        return 'team';
+    }
+    return folderName.startsWith('language') ? 'language' : 'always';
+}
+
+/**
+ * Fail when the installed extension is older than the repository requires.
+ *
+ * @param current Installed extension version; read from `package.json` by default.
+ */
+export function checkExtensionVersion(manifest: RepoManifest, repoUrl: string, current: string = getExtensionVersion()): void {
+    if (manifest.minExtensionVersion && semver.lt(current, manifest.minExtensionVersion)) {
+        throw new Error(`Rules repository ${repoUrl} requires AI Rules Syncer ${manifest.minExtensionVersion} or newer ` +
+            `(installed: ${current}). Update the extension to sync these rules.`);
+    }
+}
+
+/** Version of the running extension, from its `package.json`. */
+export function getExtensionVersion(): string {
+    const packageJson = JSON.parse(readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8'));
+    return packageJson.version;
+}
+
+function parseCategory(entry: unknown, index: number): RepoCategory {
+    const label = `${REPO_MANIFEST_FILE}: categories[${index}]`;
+    if (!entry || typeof entry !== 'object') {
+        throw new Error(`${label} must be an object`);
+    }
+    const { path: categoryPath, type, destination } = entry as Record<string, unknown>;
+
+    if (typeof categoryPath !== 'string' || !isSafeRelativePath(categoryPath)) {
+        throw new Error(`${label}.path must be a relative path inside the repository`);
+    }
+    if (!CATEGORY_TYPES.includes(type as CategoryType)) {
+        throw new Error(`${label}.type must be one of ${CATEGORY_TYPES.join(', ')}`);
+    }
+    if (destination !== undefined && (typeof destination !== 'string' || (destination !== '' && !isSafeRelativePath(destination)))) {
+        throw new Error(`${label}.destination must be a relative path inside the rules folder`);
+    }
+
+    const normalizedPath = path.posix.normalize(categoryPath.trim()).replace(/\/+$/, '');
+    return {
+        path: normalizedPath,
+        type: type as CategoryType,
+        destination: destination === undefined ? normalizedPath : path.posix.normalize(destination.trim() || '.').replace(/^\.$|\/+$/g, '')
+    };
+}
+
+function isSafeRelativePath(value: string): boolean {
+    const normalized = path.posix.normalize(value.trim());
+    return normalized !== '' && normalized !== '.' && !normalized.startsWith('/') && !value.includes('\\') &&
+        !normalized.split('/').includes('..') && normalized.split('/')[0] !== '.git';
+}
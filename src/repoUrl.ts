@@ -0,0 +1,113 @@
+/**
+ * Parsing and policy checks for rules repository URLs.
+ * Understands HTTPS (`https://host/org/repo.git`), SSH URLs
+ * (`ssh://git@host:2222/org/repo.git`) and scp-like SSH
+ * (`git@host:org/repo.git`).
+ */
+import { createHash } from 'crypto';
+
+export interface RepoLocation {
+    /** Lower-case host name without port. */
+    host: string;
+    /** Repository path without leading slash and `.git` suffix, e.g. `org/rules`. */
+    path: string;
+}
+
+/** Split a repository URL into host and path; `undefined` when it cannot be parsed. */
+export function parseRepoUrl(repoUrl: string): RepoLocation | undefined {
+    const trimmed = repoUrl.trim();
+    let host: string;
+    let repoPath: string;
+
+    const scpLike = trimmed.match(/^[\w.-]+@([^:/]+):(?!\/)(.+)$/);
+    if (scpLike) {
+        host = scpLike[1]!;
+        repoPath = scpLike[2]!;
+    } else {
+        try {
+            const url = new URL(trimmed);
+            host = url.hostname;
+            repoPath = decodeURIComponent(url.pathname);
+        } catch {
+            return undefined;
+        }
+    }
+
+    const segments = repoPath.replace(/\.git\/*$/, '').split('/').filter(Boolean);
+    if (!host || segments.length === 0 || segments.some(segment => segment === '.' || segment === '..')) {
+        return undefined;
+    }
+    return { host: host.toLowerCase(), path: segments.join('/') };
+}
+
+/**
+ * Whether two URLs address the same repository, e.g. over HTTPS and SSH.
+ * URLs that cannot be parsed only match themselves.
+ */
+export function isSameRepository(a: string, b: string): boolean {
+    const [first, second] = [parseRepoUrl(a), parseRepoUrl(b)];
+    return first && second
+        ? first.host === second.host && first.path === second.path
+        : a.trim() === b.trim();
+}
+
+/**
+ * Name of the cache folder of a repository: host and path, readable but
+ * truncated, plus a short hash of the normalized `host/path` so that no two
+ * repositories share a clone. HTTPS and SSH URLs of a repository share it,
+ * e.g. `github.com-YourOrg-rules-1a2b3c4d`. URLs that cannot be parsed get
+ * `repo-<hash of the URL>`.
+ */
+export function repoSlug(repoUrl: string): string {
+    const location = parseRepoUrl(repoUrl);
+    const normalized = location ? `${location.host}/${location.path}` : repoUrl.trim();
+    const hash = createHash('sha256').update(normalized).digest('hex').slice(0, 8);
+    const readable = location ? normalized.replace(/[^a-zA-Z0-9._-]+/g, '-').slice(0, 80) : 'repo';
+    return `${readable}-${hash}`;
+}
+
+/**
+ * Cache folder name used before {@link repoSlug}: `<org>-<repo>` without the
+ * host. Only used to find clones to move to their current name.
+ */
+export function legacyRepoSlug(repoUrl: string): string {
+    try {
+        if (repoUrl.startsWith('http')) {
+            const parts = new URL(repoUrl).pathname.replace(/\.git$/, '').split('/').filter(Boolean);
+            return `${parts.at(-2) ?? 'repo'}-${parts.at(-1) ?? 'unknown'}`.replace(/[^a-zA-Z0-9-_]/g, '-');
+        }
+
+        // SSH URLs like git@github.com:org/repo.git
+        const match = repoUrl.match(/^[\w.-]+@[^:]+:([^/]+)\/([^/]+?)(?:\.git)?$/);
+        if (match) {
+            return `${match[1]}-${match[2]}`.replace(/[^a-zA-Z0-9-_]/g, '-');
+        }
+    } catch { }
+    return Buffer.from(repoUrl).toString('base64url').slice(0, 32);
+}
+
+/**
+ * Whether a repository URL matches one of the `allowedRepositories` entries:
+ * a host (`github.com`), a host with subdomains (`*.corp.example`) or a host
+ * with a path prefix (`github.com/YourOrg`, `gitlab.com/group/subgroup`).
+ * Every repository is allowed when the list is empty.
+ */
+export function isRepositoryAllowed(repoUrl: string, allowedRepositories: string[]): boolean {
+    if (allowedRepositories.length === 0) {
+        return true;
+    }
+    const location = parseRepoUrl(repoUrl);
+    if (!location) {
+        return false;
+    }
+
+    const segments = location.path.toLowerCase().split('/');
+    return allowedRepositories.some(entry => {
+        const [host = '', ...prefix] = entry.trim().toLowerCase()
+            .replace(/^[a-z+]+:\/\//, '')
+            .split('/')
+            .filter(Boolean);
+        const hostMatches = host.startsWith('*.') ? location.host.endsWith(host.slice(1)) : location.host === host;
+        return hostMatches && prefix.every((segment, index) => segments[index] === segment);
+    });
+}
@@ -0,0 +1,236 @@
+/**
+ * Linting of rule files.
+ * Broken rules are not rejected by the assistant, they are silently ignored,
+ * so the synced rules are checked for:
+ *   • frontmatter syntax and schema of `.mdc` rules: known attributes,
+ *     attribute types, valid `globs` and a `description` on rules that are
+ *     only offered to the agent;
+ *   • `.mdc` rules sharing a name, which makes `@rule` mentions ambiguous;
+ *   • oversized rules, which crowd out the assistant's context;
+ *   • Markdown links to other rules that do not exist.
+ * The same checks run over a local checkout of a rules repository with
+ * {@link lintRulesFolder}.
+ */
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getRuleMetadata, parseFrontmatter } from './frontmatter';
+import { validateGlob } from './glob';
+
+/** Default `maxRuleSizeKb`. */
+export const DEFAULT_MAX_RULE_SIZE_KB = 32;
+
+/** Files that are linted; `.md` files only get the size and link checks. */
+const LINTED_EXTENSIONS = ['.mdc', '.md'];
+
+const KNOWN_ATTRIBUTES = ['description', 'globs', 'alwaysApply'];
+
+/** Folders never linted in a repository checkout. */
+const SKIPPED_FOLDERS = new Set(['node_modules']);
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+    | 'frontmatter-syntax'
+    | 'invalid-attribute'
+    | 'unknown-attribute'
+    | 'invalid-glob'
+    | 'missing-description'
+    | 'ignored-globs'
+    | 'duplicate-name'
+    | 'oversized'
+    | 'dead-link';
+
+export interface LintIssue {
+    /** Path relative to the linted folder, forward slashes. */
+    relPath: string;
+    /** 1-based line. */
+    line: number;
+    /** 1-based column, in UTF-16 code units like VS Code positions. */
+    column: number;
+    /** Length of the flagged text; 0 flags the line. */
+    length: number;
+    severity: LintSeverity;
+    code: LintCode;
+    message: string;
+}
+
+export interface LintOptions {
+    /** Rules larger than this many KB are reported; {@link DEFAULT_MAX_RULE_SIZE_KB} when omitted. */
+    maxRuleSizeKb?: number;
+    /**
+     * The linted folder relative to the workspace folder, e.g.
+     * `.cursor/rules/remote`; resolves Cursor's workspace-relative `mdc:`
+     * links. Such links are not checked without it.
+     */
+    rulesFolder?: string;
+}
+
+/** A rule file to lint. */
+export interface LintedFile {
+    relPath: string;
+    content: Buffer;
+}
+
+/**
+ * Lint a set of rule files. Duplicate names and links are checked within
+ * the set, so it should hold every file of the rules folder.
+ */
+export function lintRules(files: LintedFile[], options: LintOptions = {}): LintIssue[] {
+    const maxBytes = (options.maxRuleSizeKb ?? DEFAULT_MAX_RULE_SIZE_KB) * 1024;
+    const paths = new Set(files.map(file => file.relPath));
+    const issues: LintIssue[] = [];
+
+    for (const { relPath, content } of files) {
+        if (!LINTED_EXTENSIONS.some(extension => relPath.endsWith(extension)) || content.includes(0)) {
+            continue;
+        }
+        const text = content.toString('utf-8');
+        const report = (line: number, severity: LintSeverity, code: LintCode, message: string, column = 1, length = 0) => {
+            issues.push({ relPath, line, column, length, severity, code, message });
+        };
+
+        if (relPath.endsWith('.mdc')) {
+            lintFrontmatter(text, report);
+        }
+        if (content.length > maxBytes) {
+            report(1, 'warning', 'oversized', `Rule is ${Math.ceil(content.length / 1024)} KB, more than the ${maxBytes / 1024} KB limit; large rules crowd out the assistant's context`);
+        }
+        lintLinks(relPath, text, paths, options.rulesFolder, report);
+    }
+
+    // Cursor refers to rules by file name, e.g. `@testing`
+    const byName = new Map<string, string[]>();
+    for (const relPath of [...paths].filter(relPath => relPath.endsWith('.mdc')).sort()) {
+        const name = path.posix.basename(relPath, '.mdc');
+        byName.set(name, [...byName.get(name) ?? [], relPath]);
+    }
+    for (const [name, relPaths] of byName) {
+        if (relPaths.length > 1) {
+            for (const relPath of relPaths) {
+                const others = relPaths.filter(other => other !== relPath).join(', ');
+                issues.push({ relPath, line: 1, column: 1, length: 0, severity: 'warning', code: 'duplicate-name', message: `Rule name "${name}" is also used by ${others}` });
+            }
+        }
+    }
+
+    return issues.sort((a, b) => a.relPath.localeCompare(b.relPath) || a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Lint every rule file below `rootPath`, e.g. a checkout of a rules
+ * repository. Hidden folders such as `.git` and `node_modules` are skipped.
+ */
+export async function lintRulesFolder(rootPath: string, options: LintOptions = {}): Promise<LintIssue[]> {
+    const files: LintedFile[] = [];
+    const walk = async (dir: string, relDir: string): Promise<void> => {
+        for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+            const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (!entry.name.startsWith('.') && !SKIPPED_FOLDERS.has(entry.name)) {
+                    await walk(path.join(dir, entry.name), relPath);
+                }
+            } else if (entry.isFile() && LINTED_EXTENSIONS.some(extension => entry.name.endsWith(extension))) {
+                files.push({ relPath, content: await fs.readFile(path.join(dir, entry.name)) });
+            }
+        }
+    };
+    await walk(rootPath, '');
+    return lintRules(files, options);
+}
+
+type Report = (line: number, severity: LintSeverity, code: LintCode, message: string, column?: number, length?: number) => void;
+
+function lintFrontmatter(text: string, report: Report): void {
+    const parsed = parseFrontmatter(text);
+    for (const error of parsed.errors) {
+        report(error.line, 'error', 'frontmatter-syntax', error.message);
+    }
+    if (!parsed.hasFrontmatter) {
+        return;
+    }
+
+    const { attributes, attributeLines } = parsed;
+    for (const key of Object.keys(attributes).filter(key => !KNOWN_ATTRIBUTES.includes(key))) {
+        report(attributeLines[key]!, 'warning', 'unknown-attribute', `Unknown attribute "${key}"; rules use ${KNOWN_ATTRIBUTES.join(', ')}`);
+    }
+
+    const { description, globs, alwaysApply } = attributes;
+    if (description !== undefined && typeof description !== 'string') {
+        report(attributeLines['description']!, 'error', 'invalid-attribute', 'description must be text');
+    }
+    if (alwaysApply !== undefined && alwaysApply !== '' && typeof alwaysApply !== 'boolean') {
+        report(attributeLines['alwaysApply']!, 'error', 'invalid-attribute', 'alwaysApply must be true or false');
+    }
+    if (typeof globs === 'boolean') {
+        report(attributeLines['globs']!, 'error', 'invalid-attribute', 'globs must be a glob or a list of globs');
+    }
+
+    const globList = getRuleMetadata(parsed).globs;
+    for (const glob of globList) {
+        const problem = validateGlob(glob);
+        if (problem) {
+            report(attributeLines['globs']!, 'error', 'invalid-glob', `Invalid glob '${glob}': ${problem}`);
+        }
+    }
+
+    if (alwaysApply === true && globList.length > 0) {
+        report(attributeLines['globs']!, 'warning', 'ignored-globs', 'globs are ignored because alwaysApply is true');
+    }
+    if (description !== undefined && !description && alwaysApply !== true && globList.length === 0) {
+        report(attributeLines['description']!, 'warning', 'missing-description',
+            'Rule without globs has no description, so it is never offered to the agent and only applies when mentioned');
+    }
+}
+
+function lintLinks(relPath: string, text: string, paths: ReadonlySet<string>, rulesFolder: string | undefined, report: Report): void {
+    let inFence = false;
+    for (const [index, line] of text.split(/\r?\n/).entries()) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) {
+            continue;
+        }
+
+        for (const match of line.matchAll(/\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+            const target = resolveLink(relPath, match[1]!, rulesFolder);
+            if (target && !paths.has(target)) {
+                report(index + 1, 'error', 'dead-link', `Link to missing rule ${target}`, match.index! + 1, match[0].length);
+            }
+        }
+    }
+}
+
+/**
+ * The rule a link points at, relative to the linted folder; `undefined` for
+ * links that are not to a rule or lead outside the folder.
+ */
+function resolveLink(relPath: string, href: string, rulesFolder: string | undefined): string | undefined {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(href) && !href.startsWith('mdc:')) {
+        return undefined; // http:, mailto:, …
+    }
+    let target = href.replace(/[#?].*$/, '');
+    try {
+        target = decodeURI(target);
+    } catch {
+        // keep as written
+    }
+    if (!LINTED_EXTENSIONS.some(extension => target.endsWith(extension)) || target.startsWith('/')) {
+        return undefined;
+    }
+
+    let resolved: string;
+    if (target.startsWith('mdc:')) {
+        // Cursor resolves `mdc:` links from the workspace folder
+        const folder = rulesFolder?.replace(/\/+$/, '');
+        const workspacePath = path.posix.normalize(target.slice(4));
+        if (!folder || !workspacePath.startsWith(`${folder}/`)) {
+            return undefined;
+        }
+        resolved = workspacePath.slice(folder.length + 1);
+    } else {
+        resolved = path.posix.normalize(path.posix.join(path.posix.dirname(relPath), target));
+    }
+    return resolved.startsWith('../') ? undefined : resolved;
+}
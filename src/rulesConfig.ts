@@ -0,0 +1,409 @@
+/**
+ * The rules configuration and its defaults, normalisation and validation.
+ * Independent of the VS Code API: `ConfigManager` reads the settings through
+ * it inside the editor, the command line interface from a JSON file and flags,
+ * so both sync with the same configuration.
+ */
+import * as path from 'path';
+import * as os from 'os';
+import { validateGlob } from './glob';
+import { isRepositoryAllowed } from './repoUrl';
+import { validateAllowedSigner } from './signatures';
+import { validateScanPattern } from './contentScanner';
+import { DEFAULT_OVERRIDES_FILE } from './overrides';
+import { validateVariableName } from './templating';
+import { DEFAULT_MAX_RULE_SIZE_KB } from './ruleLinter';
+
+/**
+ * A single rules repository to pull from. Sources are layered in order:
+ * when two sources provide the same relative path, the later one wins.
+ */
+export interface RuleSource {
+    repoUrl: string;
+    branch: string;
+    teamNames: string[];
+    /** Subfolder inside `rulesFolderPath` receiving this source's rules ('' = the folder itself). */
+    destination: string;
+    /** Pin to a full commit SHA, an exact tag or a semver range over tags; overrides `branch`. */
+    ref?: string;
+    /** Globs over repository-relative paths; when non-empty only matching files are copied. */
+    include?: string[];
+    /** Globs over repository-relative paths that are never copied. */
+    exclude?: string[];
+    /** Top-level folders whose entries are only copied when selected. */
+    optionalCategories?: string[];
+    /** Selected entries of optional categories as `<category>/<name>`, e.g. `role/architect`. */
+    selectedRules?: string[];
+}
+
+/** How to treat synced files that were edited locally before they are replaced. */
+export type LocalEditPolicy = 'prompt' | 'backup' | 'overwrite' | 'abort';
+
+/** Whether synced commits must be signed by an allowed signer. */
+export type SignaturePolicy = 'off' | 'warn' | 'require';
+
+/** What to do when the content scan reports findings in incoming rules. */
+export type ContentScanPolicy = 'off' | 'warn' | 'strict';
+
+/** Additional AI assistant formats generated from the synced `.mdc` rules. */
+export type OutputTarget = 'copilot' | 'claude' | 'windsurf' | 'agents';
+
+const OUTPUT_TARGETS: readonly OutputTarget[] = ['copilot', 'claude', 'windsurf', 'agents'];
+
+export interface RulesConfig {
+    repoUrl: string;
+    teamNames: string[];
+    rulesFolderPath: string;
+    cacheDirPath: string;
+    syncIntervalMinutes: number;
+    branch: string;
+    /** Ordered rule sources, lowest precedence first. Derived from `repoUrl` when omitted. */
+    sources?: RuleSource[];
+    /** Root of the workspace folder this configuration was read for. */
+    workspaceFolderPath?: string;
+    /** Handling of locally edited managed files; defaults to `prompt`. */
+    localEdits?: LocalEditPolicy;
+    /** Pinned ref for the top-level `repoUrl`. */
+    ref?: string;
+    /** Formats generated into the workspace folder in addition to the rules folder. */
+    outputTargets?: OutputTarget[];
+    /** Only sync `language` rules whose `globs` match files in the workspace folder. */
+    languageDetection?: boolean;
+    /** Include globs for the top-level `repoUrl`; inherited by sources without their own. */
+    include?: string[];
+    /** Exclude globs for the top-level `repoUrl`; inherited by sources without their own. */
+    exclude?: string[];
+    /** Top-level folders whose rules are opt-in; none when omitted (the setting defaults to `role`). */
+    optionalCategories?: string[];
+    /** Opt-in rules to install, as `<category>/<name>`; applies to every source. */
+    selectedRules?: string[];
+    /** Signature check of synced commits; `off` when omitted. */
+    signatureVerification?: SignaturePolicy;
+    /** GPG or SSH key fingerprints trusted to sign synced commits. */
+    allowedSigners?: string[];
+    /** Hosts and path prefixes repositories may come from; any when empty. User setting only. */
+    allowedRepositories?: string[];
+    /** Scan incoming rules for hidden Unicode and injection patterns; `warn` when omitted. */
+    contentScanning?: ContentScanPolicy;
+    /** Regular expressions reported by the content scan (case-insensitive). */
+    contentScanPatterns?: string[];
+    /** Partial clone with sparse checkout of the needed folders; on when omitted. */
+    sparseCheckout?: boolean;
+    /** Days after which unused clones are removed from the cache; 0 keeps them. 30 when omitted. */
+    cacheRetentionDays?: number;
+    /** Overrides file relative to the workspace folder; '' turns overrides off. */
+    overridesFile?: string;
+    /** Render `{{ vars.* }}`, `{{ package.* }}` and `{{ workspace.* }}` in synced rules; off when omitted. */
+    templating?: boolean;
+    /** Values of the `vars.*` template variables. */
+    templateVariables?: Record<string, string>;
+    /** Lint synced rules and report issues as diagnostics; on when omitted. */
+    ruleLinting?: boolean;
+    /** Size above which lint reports a rule, in KB. */
+    maxRuleSizeKb?: number;
+}
+
+/**
+ * Return the ordered list of sources for a configuration. The legacy
+ * top-level `repoUrl`/`branch`/`teamNames` form the first (lowest precedence)
+ * source when set.
+ */
+export function resolveSources(config: RulesConfig): RuleSource[] {
+    if (config.sources) {
+        return config.sources;
+    }
+    if (!config.repoUrl.trim()) {
+        return [];
+    }
+    return [{
+        repoUrl: config.repoUrl.trim(),
+        branch: config.branch,
+        teamNames: config.teamNames,
+        destination: '',
+        ref: config.ref ?? '',
+        include: config.include ?? [],
+        exclude: config.exclude ?? [],
+        optionalCategories: config.optionalCategories ?? [],
+        selectedRules: config.selectedRules ?? []
+    }];
+}
+
+/** Split a `string | string[]` setting into trimmed, non-empty names. */
+export function normalizeNames(raw: string | string[] | undefined): string[] {
+    if (raw === undefined) {
+        return [];
+    }
+    return Array.isArray(raw)
+        ? raw.map(s => String(s).trim()).filter(Boolean)
+        : raw.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Source of raw `aiRulesSyncer.*` setting values, keyed without the prefix.
+ * A `vscode.WorkspaceConfiguration` is one.
+ */
+export interface SettingsReader {
+    get<T>(key: string, defaultValue: T): T;
+}
+
+/**
+ * Build a {@link RulesConfig} from raw setting values, applying the defaults
+ * and normalisation rules.
+ *
+ * @param workspaceFolderPath  Workspace folder a relative `rulesFolderPath` is resolved against.
+ * @param repositorySettings   Source of `repoUrl` and `sources`, which choose the
+ *                             repositories to sync; `settings` when omitted.
+ * @throws If `rulesFolderPath` is relative and no workspace folder is given.
+ */
+export function readRulesConfig(settings: SettingsReader, workspaceFolderPath?: string, repositorySettings: SettingsReader = settings): RulesConfig {
+    // Handle teamNames - string or array of strings
+    const teamNames = normalizeNames(settings.get<string | string[]>('teamNames', ''));
+
+    // Get cache directory with OS-specific defaults
+    const cacheDirPath = settings.get<string>('cacheDirPath', '') || getDefaultCacheDir();
+
+    // Get rules folder path relative to workspace
+    const rulesFolderSetting = settings.get<string>('rulesFolderPath', '.cursor/rules/remote');
+
+    // Get branch - use empty string if not set (indicates using repo default)
+    const branch = settings.get<string>('branch', '');
+
+    const include = normalizeNames(settings.get<string[]>('include', []));
+    const exclude = normalizeNames(settings.get<string[]>('exclude', []));
+
+    // Opt-in categories and the rules selected from them, shared by all sources
+    const optionalCategories = normalizeNames(settings.get<string[]>('optionalCategories', ['role']));
+    const selectedRules = normalizeNames(settings.get<string[]>('selectedRules', []));
+
+    const result: RulesConfig = {
+        repoUrl: repositorySettings.get<string>('repoUrl', ''),
+        teamNames,
+        rulesFolderPath: resolveRulesFolderPath(rulesFolderSetting, workspaceFolderPath),
+        cacheDirPath,
+        syncIntervalMinutes: settings.get<number>('syncIntervalMinutes', 0),
+        branch,
+        workspaceFolderPath,
+        localEdits: settings.get<LocalEditPolicy>('localEdits', 'prompt'),
+        ref: settings.get<string>('ref', '').trim(),
+        outputTargets: [...new Set(settings.get<string[]>('outputTargets', []) ?? [])]
+            .filter((target): target is OutputTarget => OUTPUT_TARGETS.includes(target as OutputTarget)),
+        languageDetection: settings.get<boolean>('languageDetection', false),
+        include,
+        exclude,
+        optionalCategories,
+        selectedRules,
+        signatureVerification: settings.get<SignaturePolicy>('signatureVerification', 'off'),
+        allowedSigners: normalizeNames(settings.get<string[]>('allowedSigners', [])),
+        allowedRepositories: normalizeNames(settings.get<string[]>('allowedRepositories', [])),
+        contentScanning: settings.get<ContentScanPolicy>('contentScanning', 'warn'),
+        // Not comma-split: patterns may contain commas
+        contentScanPatterns: (settings.get<string[]>('contentScanPatterns', []) ?? [])
+            .map(pattern => String(pattern).trim())
+            .filter(Boolean),
+        sparseCheckout: settings.get<boolean>('sparseCheckout', true),
+        cacheRetentionDays: settings.get<number>('cacheRetentionDays', 30),
+        overridesFile: settings.get<string>('overridesFile', DEFAULT_OVERRIDES_FILE).trim(),
+        templating: settings.get<boolean>('templating', false),
+        templateVariables: Object.fromEntries(Object.entries(settings.get<Record<string, unknown>>('templateVariables', {}) ?? {})
+            .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+            .map(([name, value]) => [name.trim(), String(value)])),
+        ruleLinting: settings.get<boolean>('ruleLinting', true),
+        maxRuleSizeKb: settings.get<number>('maxRuleSizeKb', DEFAULT_MAX_RULE_SIZE_KB)
+    };
+
+    // Legacy single repository first, then the layered sources in order
+    const rawSources = repositorySettings.get<Partial<RuleSource>[]>('sources', []) ?? [];
+    result.sources = [
+        ...resolveSources(result),
+        ...rawSources.map(raw => ({
+            repoUrl: (raw.repoUrl ?? '').trim(),
+            branch: (raw.branch ?? '').trim(),
+            // Sources without their own teams inherit the top-level selection
+            teamNames: raw.teamNames === undefined ? teamNames : normalizeNames(raw.teamNames),
+            destination: (raw.destination ?? '').trim(),
+            ref: (raw.ref ?? '').trim(),
+            // Filters are inherited the same way
+            include: raw.include === undefined ? include : normalizeNames(raw.include),
+            exclude: raw.exclude === undefined ? exclude : normalizeNames(raw.exclude),
+            optionalCategories,
+            selectedRules
+        }))
+    ];
+
+    return result;
+}
+
+/**
+ * Validate a {@link RulesConfig} instance and return an array of
+ * human-readable error messages for any fields that fail validation.
+ *
+ * @param config              The configuration object to validate.
+ * @param workspaceFolderPath Folder the rules folder and overrides file must be
+ *                            inside; `config.workspaceFolderPath` when omitted.
+ * @returns                   An array of error strings; empty when the config is valid.
+ */
+export function validateRulesConfig(config: RulesConfig, workspaceFolderPath = config.workspaceFolderPath): string[] {
+    const errors: string[] = [];
+
+    const sources = resolveSources(config);
+    if (sources.length === 0) {
+        errors.push('Repository URL is required');
+    }
+
+    const seenUrls = new Set<string>();
+    sources.forEach((source, index) => {
+        const label = sources.length > 1 ? ` (source ${index + 1})` : '';
+        if (!source.repoUrl) {
+            errors.push(`Repository URL is required${label}`);
+            return;
+        }
+
+        // Basic URL validation
+        const urlPattern = /^(https?:\/\/|git@)/;
+        if (!urlPattern.test(source.repoUrl)) {
+            errors.push(`Repository URL must be a valid HTTPS or SSH URL${label}`);
+        } else if (!isRepositoryAllowed(source.repoUrl, config.allowedRepositories ?? [])) {
+            errors.push(`Repository ${source.repoUrl} is not in the allowed repositories (aiRulesSyncer.allowedRepositories)${label}`);
+        }
+
+        // Sources share one cache clone per repository, so each may appear only once
+        if (seenUrls.has(source.repoUrl)) {
+            errors.push(`Repository URL is listed more than once${label}`);
+        }
+        seenUrls.add(source.repoUrl);
+
+        // Refs are passed to git; reject anything that could be read as an option
+        if (source.ref && (source.ref.startsWith('-') || /[\x00-\x1f]/.test(source.ref))) {
+            errors.push(`Ref must be a commit SHA, tag name or semver range${label}`);
+        }
+
+        const destination = path.normalize(source.destination || '.');
+        if (path.isAbsolute(destination) || destination.split(path.sep).includes('..')) {
+            errors.push(`Source destination must be a relative subfolder of the rules folder${label}`);
+        }
+
+        for (const [setting, globs] of [['include', source.include], ['exclude', source.exclude]] as const) {
+            for (const glob of globs ?? []) {
+                const problem = validateGlob(glob);
+                if (problem) {
+                    errors.push(`Invalid ${setting} pattern '${glob}'${label}: ${problem}`);
+                }
+            }
+        }
+    });
+
+    const signatureVerification = config.signatureVerification ?? 'off';
+    if (signatureVerification !== 'off' && (config.allowedSigners ?? []).length === 0) {
+        errors.push(`Signature verification '${signatureVerification}' requires at least one allowed signer`);
+    }
+    for (const signer of config.allowedSigners ?? []) {
+        const problem = validateAllowedSigner(signer);
+        if (problem) {
+            errors.push(`Invalid allowed signer '${signer}': ${problem}`);
+        }
+    }
+
+    for (const pattern of config.contentScanPatterns ?? []) {
+        const problem = validateScanPattern(pattern);
+        if (problem) {
+            errors.push(`Invalid content scan pattern '${pattern}': ${problem}`);
+        }
+    }
+
+    for (const name of Object.keys(config.templateVariables ?? {})) {
+        const problem = validateVariableName(name);
+        if (problem) {
+            errors.push(`Invalid template variable name '${name}': ${problem}`);
+        }
+    }
+
+    if (config.syncIntervalMinutes < 0) {
+        errors.push('Sync interval must be zero or positive');
+    }
+    if ((config.cacheRetentionDays ?? 30) < 0) {
+        errors.push('Cache retention must be zero or positive');
+    }
+    if ((config.maxRuleSizeKb ?? DEFAULT_MAX_RULE_SIZE_KB) <= 0) {
+        errors.push('Maximum rule size must be positive');
+    }
+
+    // Safety guard: path must be a subfolder inside the workspace (not root, not outside)
+    if (workspaceFolderPath) {
+        try {
+            const workspaceRootAbs = path.resolve(workspaceFolderPath);
+            const rulesPathAbs = path.resolve(config.rulesFolderPath);
+            const relativeFromRoot = path.relative(workspaceRootAbs, rulesPathAbs);
+
+            const isInsideWorkspace = relativeFromRoot !== '' &&
+                !relativeFromRoot.startsWith('..') &&
+                !path.isAbsolute(relativeFromRoot);
+
+            if (!isInsideWorkspace) {
+                errors.push('Rules folder path must be inside the workspace');
+            } else {
+                const depth = relativeFromRoot.split(path.sep).filter(Boolean).length;
+                if (depth < 1) {
+                    errors.push('Rules folder path must not be the workspace root; choose a subfolder');
+                }
+            }
+
+            if (config.overridesFile) {
+                const overridesRelPath = path.relative(workspaceRootAbs, path.resolve(workspaceRootAbs, config.overridesFile));
+                if (overridesRelPath === '' || overridesRelPath.startsWith('..') || path.isAbsolute(overridesRelPath)) {
+                    errors.push('Overrides file must be inside the workspace');
+                }
+            }
+        } catch {
+            // ignore resolution errors here; downstream operations will surface them
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Determine the default location for the local cache directory based on
+ * the host operating system.
+ *
+ * The function mirrors the recommended cache locations for each platform
+ * (e.g. `~/.cache` on Linux, `~/Library/Caches` on macOS, and
+ * `%LOCALAPPDATA%` on Windows).
+ */
+export function getDefaultCacheDir(): string {
+    const platform = os.platform();
+    const homeDir = os.homedir();
+
+    switch (platform) {
+        case 'linux':
+            return path.join(homeDir, '.cache');
+        case 'darwin': // macOS
+            return path.join(homeDir, 'Library', 'Caches');
+        case 'win32': // Windows
+            const localAppData = process.env.LOCALAPPDATA || path.join(homeDir, 'AppData', 'Local');
+            return path.join(localAppData, 'ai-coding-rules');
+        default:
+            return path.join(homeDir, '.ai-coding-rules-cache');
+    }
+}
+
+/**
+ * Resolve the rules folder path to an absolute path.
+ *
+ * @param configuredPath      The path provided by the user (absolute or
+ *                            workspace-relative).
+ * @param workspaceFolderPath The folder a relative path is resolved against.
+ * @throws If no workspace folder is open when a relative path is given.
+ */
+function resolveRulesFolderPath(configuredPath: string, workspaceFolderPath?: string): string {
+    // If it's already absolute, use as-is
+    if (path.isAbsolute(configuredPath)) {
+        return configuredPath;
+    }
+
+    // Resolve relative to workspace folder
+    if (!workspaceFolderPath) {
+        throw new Error('No workspace folder found. Please open a workspace to use AI rules syncer')
+    }
+
+    return path.join(workspaceFolderPath, configuredPath);
+}
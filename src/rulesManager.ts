@@ -4,15 +4,45 @@
  * periodic updates, error handling, and user interactions.
  */
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ConfigManager } from './configManager';
-import { GitManager } from './gitManager';
-import { FileSyncer } from './fileSyncer';
+import { RulesConfig, resolveSources } from './rulesConfig';
+import { CachedRepository, GitManager, SyncPass } from './gitManager';
+import { ContentFinding, FileSyncer, LocalEditAction, SourceCheckout, SyncManifest, SyncOptions, SyncPreview, TemplateProblem } from './fileSyncer';
+import { SourceUpdate, renderChangeReport, summarizeUpdate } from './changeReport';
+import { PREVIEW_SCHEME, PreviewContentProvider } from './previewProvider';
+import { RULES_VIEW_ID, RuleNode, RulesTreeProvider } from './rulesTreeProvider';
+import { SyncStatusBar } from './statusBar';
+import { SyncPlan, hasChanges } from './syncPlanner';
+import { isSkippedPath } from './workspaceScanner';
+import { readOverrides } from './overrides';
+import { DEFAULT_MAX_RULE_SIZE_KB, LintIssue, lintRulesFolder } from './ruleLinter';
+
+/** Delay before re-evaluating language rules after files were added or removed. */
+const LANGUAGE_RESCAN_DELAY_MS = 5000;
+
+/** Delay before re-rendering rules after a project file they depend on was saved. */
+const PROJECT_FILE_RESYNC_DELAY_MS = 1000;
 
 export class RulesManager {
     private configManager: ConfigManager;
     private gitManager: GitManager;
     private fileSyncer: FileSyncer;
+    private previewProvider = new PreviewContentProvider();
+    private rulesTree: RulesTreeProvider;
+    private statusBar = new SyncStatusBar();
+    private contentDiagnostics = vscode.languages.createDiagnosticCollection('ai-rules-syncer');
+    private templateDiagnostics = vscode.languages.createDiagnosticCollection('ai-rules-syncer-templates');
+    private lintDiagnostics = vscode.languages.createDiagnosticCollection('ai-rules-syncer-lint');
+    /** Files with diagnostics, per diagnostic collection and workspace folder (or linted folder). */
+    private diagnosedFiles = new Map<string, vscode.Uri[]>();
     private syncTimer: NodeJS.Timeout | undefined;
+    private languageWatchers: vscode.Disposable[] = [];
+    private languageRescanTimers = new Map<string, NodeJS.Timeout>();
+    private projectFileWatchers: vscode.Disposable[] = [];
+    private projectResyncTimers = new Map<string, NodeJS.Timeout>();
+    /** Incremented per watcher setup so an outdated setup does not install its watchers. */
+    private projectWatcherGeneration = 0;
     private isDisposed = false;
 
     constructor(
@@ -22,21 +52,47 @@ export class RulesManager {
         this.configManager = new ConfigManager();
         this.gitManager = new GitManager(this.logger);
         this.fileSyncer = new FileSyncer(this.logger);
+        this.rulesTree = new RulesTreeProvider(this.configManager, this.fileSyncer);
 
         // Ensure computed defaults are set in VS Code settings
         this.configManager.ensureDefaults().catch(error => {
             this.logger.warn('Failed to set default configuration values', error);
         });
 
-        // Watch for configuration changes
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, this.previewProvider),
+            vscode.window.registerTreeDataProvider(RULES_VIEW_ID, this.rulesTree),
+            this.rulesTree,
+            this.statusBar,
+            this.contentDiagnostics,
+            this.templateDiagnostics,
+            this.lintDiagnostics
+        );
+
+        // Watch for configuration and workspace folder changes
         vscode.workspace.onDidChangeConfiguration(this.onConfigChanged, this, context.subscriptions);
+        vscode.workspace.onDidChangeWorkspaceFolders(this.onWorkspaceFoldersChanged, this, context.subscriptions);
+        // Repository settings of an untrusted workspace may apply once it is trusted
+        vscode.workspace.onDidGrantWorkspaceTrust(this.performInitialSetup, this, context.subscriptions);
     }
 
     public async performInitialSetup(): Promise<void> {
         try {
             this.logger.info('Checking configuration...');
 
-            if (!this.configManager.isConfigured()) {
+            const configuredFolders = this.getWorkspaceFolders().filter(folder => this.configManager.isConfigured(folder));
+            if (configuredFolders.length === 0 && this.getWorkspaceFolders().some(folder => this.configManager.isWorkspaceRepoUrlIgnored(folder))) {
+                this.logger.info('Repository settings of the untrusted workspace are ignored');
+                const action = await vscode.window.showWarningMessage(
+                    'AI Rules Syncer ignores the repository configured by this workspace until you trust it.',
+                    'Manage Workspace Trust'
+                );
+                if (action === 'Manage Workspace Trust') {
+                    await vscode.commands.executeCommand('workbench.trust.manage');
+                }
+                return;
+            }
+            if (configuredFolders.length === 0) {
                 this.logger.info('Extension not configured; prompting to open settings');
                 const action = await vscode.window.showWarningMessage(
                     'AI Rules Syncer is not configured. Open settings to configure now?',
@@ -51,19 +107,18 @@ export class RulesManager {
             }
 
             // Validate before attempting any sync
-            const initialConfig = this.configManager.getConfig();
-            const initialErrors = this.configManager.validateConfig(initialConfig);
-            if (initialErrors.length > 0) {
-                const message = `Configuration invalid: ${initialErrors.join(', ')}`;
-                this.logger.warn(message);
-                vscode.window.showWarningMessage(message);
+            const validFolders = configuredFolders.filter(folder => this.getValidConfig(folder) !== undefined);
+            if (validFolders.length === 0) {
                 // Do not set up periodic sync until configuration is valid
                 return;
             }
 
             this.logger.info('Configuration valid, starting initial sync...');
-            await this.syncRules();
+            await this.syncRules(validFolders);
             this.setupPeriodicSync();
+            this.setupLanguageWatchers();
+            this.setupProjectFileWatchers();
+            await this.pruneCache();
         } catch (error) {
             this.logger.error('Initial setup failed', error);
 
@@ -93,12 +148,21 @@ export class RulesManager {
         }
     }
 
-    public async syncRules(): Promise<void> {
+    /**
+     * Sync every given workspace folder (all open folders by default). Each
+     * folder uses its own settings; cached clones are shared and fetched at
+     * most once per call.
+     *
+     * @throws The sync error when a single folder fails, or a combined error
+     *         when several folders fail.
+     */
+    public async syncRules(folders: readonly vscode.WorkspaceFolder[] = this.getWorkspaceFolders()): Promise<void> {
         if (this.isDisposed) {
             return;
         }
 
-        if (!this.configManager.isConfigured()) {
+        const configuredFolders = folders.filter(folder => this.configManager.isConfigured(folder));
+        if (configuredFolders.length === 0) {
             const action = await vscode.window.showWarningMessage(
                 'AI Rules Syncer is not configured. Open settings to configure now?',
                 'Open Settings',
@@ -110,36 +174,254 @@ export class RulesManager {
             return;
         }
 
-        const config = this.configManager.getConfig();
-        const errors = this.configManager.validateConfig(config);
-        if (errors.length > 0) {
-            const message = `Configuration invalid: ${errors.join(', ')}`;
-            this.logger.warn(message);
-            vscode.window.showWarningMessage(message);
+        for (const folder of folders) {
+            if (!configuredFolders.includes(folder)) {
+                this.logger.info(`Workspace folder ${folder.name} is not configured; skipping`);
+                this.statusBar.clearState(folder);
+            } else {
+                this.statusBar.setState(folder, { kind: 'syncing' });
+            }
+        }
+
+        const pass: SyncPass = new Map();
+        const errors: Error[] = [];
+        for (const folder of configuredFolders) {
+            try {
+                await this.syncFolder(folder, pass);
+            } catch (error) {
+                errors.push(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+        this.rulesTree.refresh();
+
+        if (errors.length === 1) {
+            throw errors[0];
+        }
+        if (errors.length > 1) {
+            throw new Error(errors.map(error => error.message).join('; '));
+        }
+    }
+
+    /**
+     * Sync a single workspace folder into its own rules folder.
+     *
+     * @param pass Repositories already fetched during the current pass.
+     */
+    private async syncFolder(folder: vscode.WorkspaceFolder, pass: SyncPass): Promise<void> {
+        const config = this.getValidConfig(folder);
+        if (!config) {
             return;
         }
 
         try {
-            this.logger.info(`Syncing rules from ${config.repoUrl}`);
+            const sources = resolveSources(config);
+            const checkouts: SourceCheckout[] = [];
+            let offline = false;
+
+            for (const [index, source] of sources.entries()) {
+                // Fetch each clone once per pass; folders sharing it still join its sparse checkout
+                this.logger.info(`Syncing rules from ${source.repoUrl}`);
+                const repository = await this.gitManager.ensureRepository(source, config, pass);
+                const { repoPath, actualBranch, commit, resolvedRef } = repository;
+                const checkout = await this.gitManager.withSignature({ source, repoPath, commit, resolvedRef }, config);
+                checkouts.push(checkout);
+                offline ||= !!repository.offline;
 
-            // Ensure cache directory exists and get repository path
-            const { repoPath, actualBranch } = await this.gitManager.ensureRepository(config);
+                if (config.signatureVerification === 'warn' && !checkout.signature?.verified) {
+                    vscode.window.showWarningMessage(`Rules from ${source.repoUrl} are not verified${this.describeFolder(folder)}: ${checkout.signature?.reason}`);
+                }
 
-            // Set branch default if we discovered the actual branch
-            if (actualBranch) {
-                await this.configManager.setBranchDefault(actualBranch, this.logger);
+                // Set branch default if we discovered the actual branch of the top-level repository
+                if (actualBranch && index === 0 && source.repoUrl === config.repoUrl.trim()) {
+                    await this.configManager.setBranchDefault(actualBranch, this.logger);
+                }
             }
 
-            // Sync files from repository to workspace
-            await this.fileSyncer.syncFiles(repoPath, config);
+            // Sync files from repositories to workspace
+            const previous = await this.fileSyncer.readManifest(config.rulesFolderPath);
+            const plan = await this.fileSyncer.syncFiles(checkouts, config, this.getSyncOptions(folder, config));
+            if (previous && hasChanges(plan)) {
+                await this.notifyRuleUpdate(folder, previous, checkouts, plan);
+            }
 
-            this.logger.info('Rules sync completed successfully');
+            this.statusBar.setState(folder, { kind: offline ? 'offline' : 'upToDate', commit: checkouts[0]?.commit });
+            this.logger.info(`Rules sync completed successfully${this.describeFolder(folder)}`);
         } catch (error) {
-            this.logger.error('Sync failed', error);
+            this.logger.error(`Sync failed${this.describeFolder(folder)}`, error);
+            this.statusBar.setState(folder, { kind: 'error', message: error instanceof Error ? error.message : String(error) });
             throw error;
         }
     }
 
+    /**
+     * Tell the user that the rules changed because a source moved to a new
+     * commit, offering a report of the new commits and the changed files.
+     */
+    private async notifyRuleUpdate(folder: vscode.WorkspaceFolder, previous: SyncManifest, checkouts: SourceCheckout[], plan: SyncPlan): Promise<void> {
+        const updates: SourceUpdate[] = [];
+        for (const { source, repoPath, commit } of checkouts) {
+            const previousCommit = previous.sources.find(candidate => candidate.repoUrl === source.repoUrl)?.commit;
+            if (commit && previousCommit && previousCommit !== commit) {
+                const commits = await this.gitManager.getCommitLog(repoPath, previousCommit, commit);
+                updates.push({ repoUrl: source.repoUrl, previousCommit, commit, commits });
+            }
+        }
+        // Changes caused by settings alone are expected by whoever changed them
+        if (updates.length === 0) {
+            return;
+        }
+
+        const message = summarizeUpdate(updates, plan);
+        this.logger.info(`${message}${this.describeFolder(folder)}`);
+        vscode.window.showInformationMessage(`${message}${this.describeFolder(folder)}`, 'View Changes').then(async action => {
+            try {
+                if (action === 'View Changes') {
+                    const content = renderChangeReport(updates, plan, this.getWorkspaceFolders().length > 1 ? folder.name : undefined);
+                    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+                    await vscode.window.showTextDocument(document, { preview: true });
+                }
+            } catch (error) {
+                this.logger.error(`Showing the rule changes failed${this.describeFolder(folder)}`, error);
+            }
+        });
+    }
+
+    /**
+     * Read and validate the configuration of a workspace folder, warning the
+     * user when it is invalid.
+     *
+     * @returns The configuration, or `undefined` when it is invalid.
+     */
+    private getValidConfig(folder: vscode.WorkspaceFolder): RulesConfig | undefined {
+        const config = this.configManager.getConfig(folder);
+        const errors = this.configManager.validateConfig(config);
+        if (errors.length > 0) {
+            const message = `Configuration invalid${this.describeFolder(folder)}: ${errors.join(', ')}`;
+            this.logger.warn(message);
+            this.statusBar.setState(folder, { kind: 'invalidConfig', message: errors.join(', ') });
+            vscode.window.showWarningMessage(message);
+            return undefined;
+        }
+        return config;
+    }
+
+    private getSyncOptions(folder: vscode.WorkspaceFolder, config: RulesConfig): SyncOptions {
+        return {
+            onLocalEdits: relPaths => this.promptLocalEdits(folder, relPaths),
+            onContentFindings: (findings, blocked) => this.publishContentFindings(folder, config, findings, blocked),
+            onTemplateProblems: problems => this.publishTemplateProblems(folder, config, problems),
+            onLintIssues: issues => this.publishLintIssues(folder.uri.toString(), config.rulesFolderPath, issues)
+        };
+    }
+
+    /**
+     * Replace the Problems panel entries of a folder with the latest content
+     * scan findings. Blocked files are not in the rules folder, so their
+     * findings point at the cached clone.
+     */
+    private publishContentFindings(folder: vscode.WorkspaceFolder, config: RulesConfig, findings: ContentFinding[], blocked: boolean): void {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const finding of findings) {
+            const filePath = blocked ? finding.sourcePath : path.join(config.rulesFolderPath, finding.relPath);
+            const start = new vscode.Position(finding.line - 1, finding.column - 1);
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(start, start.translate(0, finding.length)),
+                `${finding.message} (from ${finding.repoUrl})`,
+                blocked ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'AI Rules Syncer';
+            diagnostic.code = finding.kind;
+            byFile.set(filePath, [...byFile.get(filePath) ?? [], diagnostic]);
+        }
+
+        this.replaceDiagnostics(this.contentDiagnostics, folder.uri.toString(), byFile);
+        if (findings.length > 0 && !blocked) {
+            vscode.window.showWarningMessage(
+                `Content scan found ${findings.length} issue(s) in the synced AI rules${this.describeFolder(folder)}. See the Problems panel.`);
+        }
+    }
+
+    /** Replace the Problems panel entries of a folder with the latest unresolved template variables. */
+    private publishTemplateProblems(folder: vscode.WorkspaceFolder, config: RulesConfig, problems: TemplateProblem[]): void {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const problem of problems) {
+            const filePath = path.join(config.rulesFolderPath, problem.relPath);
+            const start = new vscode.Position(problem.line - 1, problem.column - 1);
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(start, start.translate(0, problem.length)),
+                `Unresolved template variable ${problem.name} (from ${problem.repoUrl})`,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'AI Rules Syncer';
+            diagnostic.code = 'unresolved-variable';
+            byFile.set(filePath, [...byFile.get(filePath) ?? [], diagnostic]);
+        }
+        this.replaceDiagnostics(this.templateDiagnostics, folder.uri.toString(), byFile);
+    }
+
+    /**
+     * Replace the Problems panel entries of a rules folder, or of a folder
+     * linted on its own, with its latest lint issues.
+     *
+     * @param scope Workspace folder or linted folder the issues belong to.
+     */
+    private publishLintIssues(scope: string, rootPath: string, issues: LintIssue[]): void {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const issue of issues) {
+            const filePath = path.join(rootPath, issue.relPath);
+            const start = new vscode.Position(issue.line - 1, issue.column - 1);
+            const diagnostic = new vscode.Diagnostic(
+                issue.length > 0 ? new vscode.Range(start, start.translate(0, issue.length)) : new vscode.Range(start, start.with({ character: Number.MAX_SAFE_INTEGER })),
+                issue.message,
+                issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'AI Rules Syncer';
+            diagnostic.code = issue.code;
+            byFile.set(filePath, [...byFile.get(filePath) ?? [], diagnostic]);
+        }
+        this.replaceDiagnostics(this.lintDiagnostics, scope, byFile);
+    }
+
+    /** Replace the diagnostics `collection` holds for the files of a folder. */
+    private replaceDiagnostics(collection: vscode.DiagnosticCollection, scope: string, byFile: Map<string, vscode.Diagnostic[]>): void {
+        const key = `${collection.name} ${scope}`;
+        for (const uri of this.diagnosedFiles.get(key) ?? []) {
+            collection.delete(uri);
+        }
+
+        const uris = [...byFile].map(([filePath, diagnostics]) => {
+            const uri = vscode.Uri.file(filePath);
+            collection.set(uri, diagnostics);
+            return uri;
+        });
+        this.diagnosedFiles.set(key, uris);
+    }
+
+    /** Ask whether locally edited rule files may be replaced; dismissing the dialog aborts the sync. */
+    private async promptLocalEdits(folder: vscode.WorkspaceFolder, relPaths: string[]): Promise<LocalEditAction> {
+        const shown = relPaths.slice(0, 5).join(', ') + (relPaths.length > 5 ? `, … (${relPaths.length - 5} more)` : '');
+        const action = await vscode.window.showWarningMessage(
+            `${relPaths.length} synced rule file(s) were edited locally and would be replaced${this.describeFolder(folder)}: ${shown}`,
+            { modal: true },
+            'Back Up and Sync',
+            'Overwrite'
+        );
+
+        if (action === 'Back Up and Sync') {
+            return 'backup';
+        }
+        return action === 'Overwrite' ? 'overwrite' : 'abort';
+    }
+
+    private getWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
+        return vscode.workspace.workspaceFolders ?? [];
+    }
+
+    /** Folder suffix for messages; empty in single-folder workspaces. */
+    private describeFolder(folder: vscode.WorkspaceFolder): string {
+        return this.getWorkspaceFolders().length > 1 ? ` (${folder.name})` : '';
+    }
+
     private async handleSyncError(error: Error, isFirstTime: boolean): Promise<void> {
         if (isFirstTime) {
             // Show blocking modal for first-time failures
@@ -155,10 +437,7 @@ export class RulesManager {
             } else if (action === 'Work with local copy') {
                 // Try to use existing cached content if available
                 try {
-                    const config = this.configManager.getConfig();
-                    const repoPath = this.gitManager.getRepositoryPath(config);
-                    if (await this.fileSyncer.hasExistingContent(repoPath)) {
-                        await this.fileSyncer.syncFiles(repoPath, config);
+                    if (await this.syncFromCache()) {
                         this.logger.info('Using existing cached rules');
                     } else {
                         vscode.window.showWarningMessage('No rules available; working without rules');
@@ -176,6 +455,63 @@ export class RulesManager {
 
 
 
+    /**
+     * Sync every configured workspace folder from the cached clones only,
+     * without contacting the remote repositories.
+     *
+     * @returns `true` when at least one folder received cached rules.
+     */
+    private async syncFromCache(): Promise<boolean> {
+        let synced = false;
+        for (const folder of this.getWorkspaceFolders()) {
+            if (!this.configManager.isConfigured(folder)) {
+                continue;
+            }
+            const config = this.configManager.getConfig(folder);
+            // The allow-list and path checks apply to cached rules too
+            if (this.configManager.validateConfig(config).length > 0) {
+                this.logger.warn(`Configuration invalid${this.describeFolder(folder)}; not using cached rules`);
+                continue;
+            }
+            const checkouts = await this.getCachedCheckouts(config);
+            if (checkouts.length > 0) {
+                await this.fileSyncer.syncFiles(checkouts, config, this.getSyncOptions(folder, config));
+                this.statusBar.setState(folder, { kind: 'offline', commit: checkouts[0]?.commit });
+                synced = true;
+            }
+        }
+        this.rulesTree.refresh();
+        return synced;
+    }
+
+    /**
+     * Collect the sources that already have a cached clone, preserving their
+     * precedence order, for use when the remote repositories are unreachable.
+     * Returns nothing while a shared clone is checked out at another folder's
+     * branch or ref, so the folder keeps the rules it has.
+     */
+    private async getCachedCheckouts(config: RulesConfig): Promise<SourceCheckout[]> {
+        const manifest = await this.fileSyncer.readManifest(config.rulesFolderPath);
+        const checkouts: SourceCheckout[] = [];
+        for (const source of resolveSources(config)) {
+            const repoPath = this.gitManager.getRepositoryPath(source, config);
+            if (!await this.fileSyncer.hasExistingContent(repoPath)) {
+                this.logger.warn(`No cached copy of ${source.repoUrl}; skipping`);
+                continue;
+            }
+            const synced = manifest?.sources.find(entry => entry.repoUrl === source.repoUrl && entry.destination === source.destination
+                && entry.branch === source.branch && entry.ref === (source.ref || undefined));
+            const commit = await this.gitManager.getCachedCommit(source, config, synced?.commit);
+            if (!commit) {
+                this.logger.warn(`Cached copy of ${source.repoUrl} is checked out at another branch or ref; not using cached rules`);
+                return [];
+            }
+            const resolvedRef = synced?.commit === commit ? synced.resolvedRef : undefined;
+            checkouts.push(await this.gitManager.withSignature({ source, repoPath, commit, resolvedRef }, config));
+        }
+        return checkouts;
+    }
+
     private onConfigChanged(event: vscode.ConfigurationChangeEvent): void {
         if (event.affectsConfiguration('aiRulesSyncer')) {
             this.logger.info('Configuration changed, applying updates...');
@@ -183,36 +519,242 @@ export class RulesManager {
             // Check which specific settings changed
             const changedSettings = [
                 'aiRulesSyncer.repoUrl',
+                'aiRulesSyncer.sources',
                 'aiRulesSyncer.teamNames',
                 'aiRulesSyncer.branch',
+                'aiRulesSyncer.ref',
                 'aiRulesSyncer.syncIntervalMinutes',
                 'aiRulesSyncer.cacheDirPath',
-                'aiRulesSyncer.rulesFolderPath'
+                'aiRulesSyncer.rulesFolderPath',
+                'aiRulesSyncer.localEdits',
+                'aiRulesSyncer.outputTargets',
+                'aiRulesSyncer.languageDetection',
+                'aiRulesSyncer.include',
+                'aiRulesSyncer.exclude',
+                'aiRulesSyncer.optionalCategories',
+                'aiRulesSyncer.selectedRules',
+                'aiRulesSyncer.signatureVerification',
+                'aiRulesSyncer.allowedSigners',
+                'aiRulesSyncer.allowedRepositories',
+                'aiRulesSyncer.ignoreUntrustedWorkspaceRepoUrl',
+                'aiRulesSyncer.contentScanning',
+                'aiRulesSyncer.contentScanPatterns',
+                'aiRulesSyncer.sparseCheckout',
+                'aiRulesSyncer.overridesFile',
+                'aiRulesSyncer.templating',
+                'aiRulesSyncer.templateVariables',
+                'aiRulesSyncer.ruleLinting',
+                'aiRulesSyncer.maxRuleSizeKb'
             ].filter(setting => event.affectsConfiguration(setting));
 
             this.logger.debug(`Changed settings: ${changedSettings.join(', ')}`);
 
             // Update periodic sync (handles syncIntervalMinutes changes)
             this.setupPeriodicSync();
+            this.setupLanguageWatchers();
+            this.setupProjectFileWatchers();
+            this.rulesTree.refresh();
+            for (const folder of this.getWorkspaceFolders()) {
+                if (!this.configManager.isConfigured(folder)) {
+                    this.statusBar.clearState(folder);
+                }
+            }
 
             // If relevant settings changed, trigger a full sync immediately.
-            // Includes repository, team, branch, destination folder and cache location changes.
+            // Includes repository, team, branch, destination folder, cache location, output target, file selection, signature, repository and content scan policy, sparse checkout, overrides, templating and lint changes.
             const resyncSettings = [
                 'aiRulesSyncer.repoUrl',
+                'aiRulesSyncer.sources',
                 'aiRulesSyncer.teamNames',
                 'aiRulesSyncer.branch',
+                'aiRulesSyncer.ref',
                 'aiRulesSyncer.rulesFolderPath',
-                'aiRulesSyncer.cacheDirPath'
+                'aiRulesSyncer.cacheDirPath',
+                'aiRulesSyncer.outputTargets',
+                'aiRulesSyncer.languageDetection',
+                'aiRulesSyncer.include',
+                'aiRulesSyncer.exclude',
+                'aiRulesSyncer.optionalCategories',
+                'aiRulesSyncer.selectedRules',
+                'aiRulesSyncer.signatureVerification',
+                'aiRulesSyncer.allowedSigners',
+                'aiRulesSyncer.allowedRepositories',
+                'aiRulesSyncer.ignoreUntrustedWorkspaceRepoUrl',
+                'aiRulesSyncer.contentScanning',
+                'aiRulesSyncer.contentScanPatterns',
+                'aiRulesSyncer.sparseCheckout',
+                'aiRulesSyncer.overridesFile',
+                'aiRulesSyncer.templating',
+                'aiRulesSyncer.templateVariables',
+                'aiRulesSyncer.ruleLinting',
+                'aiRulesSyncer.maxRuleSizeKb'
             ];
-            if (changedSettings.some(setting => resyncSettings.includes(setting))) {
-                this.logger.info('Relevant settings changed, triggering sync...');
-                this.syncRules().catch(error => {
+            const affectedFolders = this.getWorkspaceFolders().filter(folder =>
+                resyncSettings.some(setting => event.affectsConfiguration(setting, folder.uri)));
+            if (affectedFolders.length > 0) {
+                this.logger.info(`Relevant settings changed, triggering sync for: ${affectedFolders.map(folder => folder.name).join(', ')}`);
+                this.syncRules(affectedFolders).catch(error => {
                     this.handleSyncError(error as Error, false);
                 });
             }
         }
     }
 
+    private onWorkspaceFoldersChanged(event: vscode.WorkspaceFoldersChangeEvent): void {
+        for (const removed of event.removed) {
+            this.logger.info(`Workspace folder removed: ${removed.name}`);
+            this.statusBar.clearState(removed);
+        }
+
+        // Only newly added folders need a sync; existing folders are unaffected
+        if (event.added.length > 0) {
+            this.logger.info(`Workspace folders added, triggering sync for: ${event.added.map(folder => folder.name).join(', ')}`);
+            this.syncRules(event.added).catch(error => {
+                this.handleSyncError(error as Error, false);
+            });
+        }
+        this.setupPeriodicSync();
+        this.setupLanguageWatchers();
+        this.setupProjectFileWatchers();
+        this.rulesTree.refresh();
+    }
+
+    /**
+     * Watch folders with `languageDetection` for created and deleted files,
+     * so language rules are re-evaluated when the project's languages change.
+     */
+    private setupLanguageWatchers(): void {
+        this.disposeLanguageWatchers();
+
+        for (const folder of this.getWorkspaceFolders()) {
+            if (!this.configManager.isConfigured(folder) || !this.configManager.getConfig(folder).languageDetection) {
+                continue;
+            }
+            // Content changes never change which languages are present
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '**/*'), false, true, false);
+            watcher.onDidCreate(uri => this.onWorkspaceFileChanged(folder, uri));
+            watcher.onDidDelete(uri => this.onWorkspaceFileChanged(folder, uri));
+            this.languageWatchers.push(watcher);
+        }
+    }
+
+    private onWorkspaceFileChanged(folder: vscode.WorkspaceFolder, uri: vscode.Uri): void {
+        const config = this.configManager.getConfig(folder);
+        const relPath = path.relative(folder.uri.fsPath, uri.fsPath);
+        const rulesRelPath = path.relative(config.rulesFolderPath, uri.fsPath);
+        // Ignore our own writes and folders the scan skips anyway
+        if (isSkippedPath(relPath) || !rulesRelPath.startsWith('..')) {
+            return;
+        }
+
+        const key = folder.uri.toString();
+        clearTimeout(this.languageRescanTimers.get(key));
+        this.languageRescanTimers.set(key, setTimeout(() => {
+            this.languageRescanTimers.delete(key);
+            this.resyncFromCache(folder).catch(error => {
+                this.logger.error(`Re-evaluating language rules failed${this.describeFolder(folder)}`, error);
+            });
+        }, LANGUAGE_RESCAN_DELAY_MS));
+    }
+
+    /**
+     * Re-run the file sync of a folder from the cached clones. The sync is
+     * skipped by its fingerprint unless the set of applicable language rules
+     * or the local overrides changed.
+     */
+    private async resyncFromCache(folder: vscode.WorkspaceFolder): Promise<void> {
+        if (this.isDisposed) {
+            return;
+        }
+        const config = this.configManager.getConfig(folder);
+        if (this.configManager.validateConfig(config).length > 0) {
+            return;
+        }
+        const checkouts = await this.getCachedCheckouts(config);
+        if (checkouts.length > 0) {
+            await this.fileSyncer.syncFiles(checkouts, config, this.getSyncOptions(folder, config));
+            this.rulesTree.refresh();
+        }
+    }
+
+    private disposeLanguageWatchers(): void {
+        for (const watcher of this.languageWatchers) {
+            watcher.dispose();
+        }
+        this.languageWatchers = [];
+        for (const timer of this.languageRescanTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.languageRescanTimers.clear();
+    }
+
+    /**
+     * Watch the project files the rules of each configured folder depend on:
+     * the overrides file, the replacement files it names and, with
+     * templating, `package.json`. Changes apply as soon as they are saved.
+     */
+    private setupProjectFileWatchers(): void {
+        this.watchProjectFiles().catch(error => {
+            this.logger.warn('Failed to watch project files', error);
+        });
+    }
+
+    private async watchProjectFiles(): Promise<void> {
+        const generation = ++this.projectWatcherGeneration;
+        const watched: { folder: vscode.WorkspaceFolder; files: string[] }[] = [];
+        for (const folder of this.getWorkspaceFolders()) {
+            const { overridesFile, templating } = this.configManager.getConfig(folder);
+            if (!this.configManager.isConfigured(folder)) {
+                continue;
+            }
+            const files = templating ? ['package.json'] : [];
+            if (overridesFile) {
+                files.push(overridesFile);
+                try {
+                    files.push(...Object.values((await readOverrides(path.join(folder.uri.fsPath, overridesFile)))?.replace ?? {}));
+                } catch {
+                    // An invalid overrides file is reported by the sync
+                }
+            }
+            if (files.length > 0) {
+                watched.push({ folder, files });
+            }
+        }
+        if (generation !== this.projectWatcherGeneration || this.isDisposed) {
+            return;
+        }
+
+        this.disposeProjectFileWatchers();
+        for (const { folder, files } of watched) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, `{${files.join(',')}}`));
+            watcher.onDidCreate(() => this.onProjectFileChanged(folder));
+            watcher.onDidChange(() => this.onProjectFileChanged(folder));
+            watcher.onDidDelete(() => this.onProjectFileChanged(folder));
+            this.projectFileWatchers.push(watcher);
+        }
+    }
+
+    private onProjectFileChanged(folder: vscode.WorkspaceFolder): void {
+        const key = folder.uri.toString();
+        clearTimeout(this.projectResyncTimers.get(key));
+        this.projectResyncTimers.set(key, setTimeout(() => {
+            this.projectResyncTimers.delete(key);
+            this.logger.info(`Project files used by the rules changed${this.describeFolder(folder)}; re-applying rules`);
+            this.resyncFromCache(folder).catch(error => {
+                this.handleSyncError(error as Error, false);
+            });
+            // The overrides may name other replacement files now
+            this.setupProjectFileWatchers();
+        }, PROJECT_FILE_RESYNC_DELAY_MS));
+    }
+
+    private disposeProjectFileWatchers(): void {
+        for (const watcher of this.projectFileWatchers) {
+            watcher.dispose();
+        }
+        this.projectFileWatchers = [];
+    }
+
     private setupPeriodicSync(): void {
         // Clear existing timer
         if (this.syncTimer) {
@@ -220,9 +762,11 @@ export class RulesManager {
             this.syncTimer = undefined;
         }
 
-        const config = this.configManager.getConfig();
-        const errors = this.configManager.validateConfig(config);
-        if (errors.length > 0) {
+        const folders = this.getWorkspaceFolders().filter(folder => this.configManager.isConfigured(folder));
+        const configs = folders.map(folder => this.configManager.getConfig(folder));
+        const config = configs.find(candidate => this.configManager.validateConfig(candidate).length === 0);
+        if (!config) {
+            const errors = configs.flatMap(candidate => this.configManager.validateConfig(candidate));
             this.logger.warn(`Skipping periodic sync due to invalid configuration: ${errors.join(', ')}`);
             return;
         }
@@ -251,10 +795,7 @@ export class RulesManager {
         } else if (action === 'Work with Local Copy') {
             // Attempt to use cached rules immediately, mirroring first-time error fallback
             try {
-                const config = this.configManager.getConfig();
-                const repoPath = this.gitManager.getRepositoryPath(config);
-                if (await this.fileSyncer.hasExistingContent(repoPath)) {
-                    await this.fileSyncer.syncFiles(repoPath, config);
+                if (await this.syncFromCache()) {
                     this.logger.info('Using existing cached rules');
                     vscode.window.showInformationMessage('Using existing cached AI rules. You can reconfigure the repository later.');
                 } else {
@@ -268,13 +809,59 @@ export class RulesManager {
     }
 
     public async showCurrentConfiguration(): Promise<void> {
-        const config = this.configManager.getConfig();
-        const effectiveConfig = this.configManager.getEffectiveConfiguration();
+        const folders = this.getWorkspaceFolders();
 
         let message = '**Current AI Rules Configuration:**\n\n';
-        message += `**Repository URL:** ${config.repoUrl || '(not configured)'}\n`;
+        for (const folder of folders) {
+            if (folders.length > 1) {
+                message += `**Workspace Folder:** ${folder.name}\n`;
+            }
+            message += await this.describeConfiguration(folder);
+        }
+
+        const plainMessage = message.replace(/\*\*/g, '');
+        await vscode.window.showInformationMessage(plainMessage, { modal: true }, 'OK');
+    }
+
+    /** Render the configuration of one workspace folder as Markdown-ish text. */
+    private async describeConfiguration(folder: vscode.WorkspaceFolder): Promise<string> {
+        const config = this.configManager.getConfig(folder);
+        const effectiveConfig = this.configManager.getEffectiveConfiguration(folder);
+
+        let message = `**Repository URL:** ${config.repoUrl || '(not configured)'}\n`;
         message += `**Team Names:** ${config.teamNames.length > 0 ? config.teamNames.join(', ') : '(none)'}\n`;
+        const selectedRules = config.selectedRules ?? [];
+        const categories = (config.optionalCategories ?? []).join(', ') || '(none)';
+        message += `**Optional Rules (${categories}):** ${selectedRules.length > 0 ? selectedRules.join(', ') : '(none selected)'}\n`;
         message += `**Rules Folder:** ${config.rulesFolderPath}\n`;
+
+        const sources = resolveSources(config);
+        if (sources.length > 0) {
+            const manifest = await this.fileSyncer.readManifest(config.rulesFolderPath);
+            message += '**Sources (lowest to highest precedence):**\n';
+            for (const [index, source] of sources.entries()) {
+                const commit = await this.gitManager.getResolvedCommit(source, config);
+                const teams = source.teamNames.length > 0 ? source.teamNames.join(', ') : '(none)';
+                message += `  ${index + 1}. ${source.repoUrl}`;
+                if (source.ref) {
+                    const synced = manifest?.sources.find(entry => entry.repoUrl === source.repoUrl && entry.ref === source.ref);
+                    message += ` | pinned: ${source.ref} → ${synced?.resolvedRef ?? '(not synced yet)'}`;
+                } else {
+                    message += ` | branch: ${source.branch || '(default)'}`;
+                }
+                message += ` | teams: ${teams}`;
+                message += ` | destination: ${source.destination || '.'}`;
+                message += ` | commit: ${commit ? commit.substring(0, 8) : '(not synced yet)'}\n`;
+            }
+        }
+
+        const signatureVerification = config.signatureVerification ?? 'off';
+        message += `**Signature Verification:** ${signatureVerification}`;
+        message += signatureVerification === 'off' ? '\n' : ` (${(config.allowedSigners ?? []).length} allowed signer(s))\n`;
+        message += `**Content Scanning:** ${config.contentScanning ?? 'warn'} (${(config.contentScanPatterns ?? []).length} pattern(s))\n`;
+        message += `**Overrides:** ${await this.describeOverrides(config)}\n`;
+        message += `**Templating:** ${config.templating ? `on (${Object.keys(config.templateVariables ?? {}).length} variable(s))` : 'off'}\n`;
+        message += `**Rule Linting:** ${config.ruleLinting ?? true ? `on (max. ${config.maxRuleSizeKb ?? DEFAULT_MAX_RULE_SIZE_KB} KB per rule)` : 'off'}\n`;
         message += `**Sync Interval:** ${config.syncIntervalMinutes === 0 ? 'disabled' : `${config.syncIntervalMinutes} minutes`}\n\n`;
 
         message += '**Computed Defaults:**\n';
@@ -283,8 +870,345 @@ export class RulesManager {
             message += `**${item.setting}:** ${item.value}${defaultText}\n`;
         });
 
-        const plainMessage = message.replace(/\*\*/g, '');
-        await vscode.window.showInformationMessage(plainMessage, { modal: true }, 'OK');
+        return message + '\n';
+    }
+
+    /** Summary of the rules overridden by the last sync, from its manifest. */
+    private async describeOverrides(config: RulesConfig): Promise<string> {
+        if (!config.overridesFile) {
+            return 'off';
+        }
+        const manifest = await this.fileSyncer.readManifest(config.rulesFolderPath);
+        const overridden = Object.entries(manifest?.files ?? {}).filter(([, file]) => file.overrides?.length);
+        const disabled = Object.keys(manifest?.disabled ?? {});
+        if (overridden.length === 0 && disabled.length === 0) {
+            return `${config.overridesFile} (no rules overridden)`;
+        }
+        const entries = [
+            ...overridden.map(([relPath, file]) => `${relPath} (${file.overrides!.join(', ')})`),
+            ...disabled.map(relPath => `${relPath} (disabled)`)
+        ];
+        return `${config.overridesFile}: ${entries.join(', ')}`;
+    }
+
+    /**
+     * Lint a folder picked by the user, e.g. a local checkout of a rules
+     * repository, without syncing. Works without any configuration.
+     */
+    public async lintFolder(): Promise<void> {
+        const folders = this.getWorkspaceFolders();
+        const picked = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: folders[0]?.uri,
+            openLabel: 'Lint Rules'
+        });
+        const rootPath = picked?.[0]?.fsPath;
+        if (!rootPath) {
+            return;
+        }
+
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(rootPath));
+        const config = this.configManager.getConfig(folder);
+        const issues = await lintRulesFolder(rootPath, {
+            maxRuleSizeKb: config.maxRuleSizeKb,
+            rulesFolder: folder ? path.relative(folder.uri.fsPath, rootPath).split(path.sep).join('/') || undefined : undefined
+        });
+        this.publishLintIssues(vscode.Uri.file(rootPath).toString(), rootPath, issues);
+        for (const issue of issues) {
+            this.logger.warn(`Lint ${issue.severity}: ${path.join(rootPath, issue.relPath)}:${issue.line}:${issue.column}: ${issue.message} (${issue.code})`);
+        }
+
+        if (issues.length === 0) {
+            vscode.window.showInformationMessage(`No rule issues found in ${rootPath}.`);
+            return;
+        }
+        const files = new Set(issues.map(issue => issue.relPath)).size;
+        const action = await vscode.window.showWarningMessage(`Found ${issues.length} issue(s) in ${files} rule file(s) in ${rootPath}.`, 'Show Problems');
+        if (action === 'Show Problems') {
+            await vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    }
+
+    /**
+     * Let the user pick the optional rules (e.g. roles) to install from the
+     * entries available in the cached clones, and store the selection.
+     */
+    public async selectOptionalRules(): Promise<void> {
+        const folder = await this.pickConfiguredFolder('Select the workspace folder to choose rules for');
+        if (!folder) {
+            return;
+        }
+
+        const config = this.configManager.getConfig(folder);
+        const available = await this.fileSyncer.listOptionalRules(await this.getCachedCheckouts(config));
+        if (available.length === 0) {
+            const categories = (config.optionalCategories ?? []).join(', ') || '(none)';
+            vscode.window.showInformationMessage(`No optional rules found in the cached repositories (categories: ${categories}). Refresh the rules first.`);
+            return;
+        }
+
+        const selected = new Set(config.selectedRules ?? []);
+        const multipleSources = new Set(available.map(rule => rule.repoUrl)).size > 1;
+        const picks = await vscode.window.showQuickPick(
+            available.map(rule => ({
+                label: rule.id,
+                description: rule.description,
+                detail: multipleSources ? rule.repoUrl : undefined,
+                picked: selected.has(rule.id)
+            })),
+            { canPickMany: true, matchOnDescription: true, placeHolder: `Select the optional rules to install${this.describeFolder(folder)}` }
+        );
+        if (!picks) {
+            return;
+        }
+
+        // Keep selections that no cached clone offers, e.g. of a source not cloned yet
+        const unavailable = [...selected].filter(id => !available.some(rule => rule.id === id));
+        await this.configManager.setSelectedRules([...unavailable, ...picks.map(pick => pick.label)], folder);
+        this.logger.info(`Selected optional rules${this.describeFolder(folder)}: ${picks.map(pick => pick.label).join(', ') || '(none)'}`);
+    }
+
+    /**
+     * Preview what a sync from the cached clones would change in the rules
+     * folder. Selecting a file opens its diff; the changes are applied only
+     * when the user confirms.
+     */
+    public async showEffectiveRules(): Promise<void> {
+        const folder = await this.pickConfiguredFolder('Select the workspace folder to preview rules for');
+        const config = folder && this.getValidConfig(folder);
+        if (!folder || !config) {
+            return;
+        }
+
+        const checkouts = await this.getCachedCheckouts(config);
+        if (checkouts.length === 0) {
+            vscode.window.showInformationMessage('No cached rules yet. Run "Refresh Rules" first.');
+            return;
+        }
+
+        const preview = await this.fileSyncer.previewSync(checkouts, config);
+        const { plan } = preview;
+        if (!hasChanges(plan)) {
+            vscode.window.showInformationMessage(`Rules are up to date${this.describeFolder(folder)}; a sync would not change any file.`);
+            return;
+        }
+
+        this.previewProvider.clear();
+        const edited = new Set(preview.localEdits);
+        const describe = (change: string, relPath: string) => edited.has(relPath) ? `${change}, edited locally` : change;
+        type ChangeItem = vscode.QuickPickItem & { relPath?: string; action?: 'apply' | 'cancel' };
+        const items: ChangeItem[] = [
+            {
+                label: '$(check) Apply changes',
+                description: `${plan.added.length} added, ${plan.modified.length} modified, ${plan.removed.length} removed`,
+                action: 'apply'
+            },
+            { label: '$(close) Cancel', action: 'cancel' },
+            { label: 'Changes', kind: vscode.QuickPickItemKind.Separator },
+            ...plan.added.map(relPath => ({ label: relPath, description: 'added', relPath })),
+            ...plan.modified.map(relPath => ({ label: relPath, description: describe('modified', relPath), relPath })),
+            ...plan.removed.map(relPath => ({ label: relPath, description: describe('removed', relPath), relPath }))
+        ];
+
+        // Opening a diff closes the picker, so show it again until the user decides
+        for (;;) {
+            const pick = await vscode.window.showQuickPick(items, {
+                placeHolder: `Select a file to see its diff, then apply or cancel${this.describeFolder(folder)}`,
+                ignoreFocusOut: true
+            });
+            if (!pick || pick.action === 'cancel') {
+                this.logger.info('Rules preview closed without applying changes');
+                return;
+            }
+            if (pick.action === 'apply') {
+                break;
+            }
+            await this.showPreviewDiff(config, preview, pick.relPath!);
+        }
+
+        const applied = await this.fileSyncer.syncFiles(checkouts, config, this.getSyncOptions(folder, config));
+        this.rulesTree.refresh();
+        vscode.window.showInformationMessage(`Applied rule changes${this.describeFolder(folder)}: ` +
+            `${applied.added.length} added, ${applied.modified.length} modified, ${applied.removed.length} removed`);
+    }
+
+    private async showPreviewDiff(config: RulesConfig, preview: SyncPreview, relPath: string): Promise<void> {
+        const current = preview.plan.added.includes(relPath)
+            ? this.previewProvider.add(`${relPath} (not present)`, '')
+            : vscode.Uri.file(path.join(config.rulesFolderPath, relPath));
+        const proposed = preview.contents.get(relPath);
+        const effective = proposed === undefined
+            ? this.previewProvider.add(`${relPath} (removed)`, '')
+            : this.previewProvider.add(relPath, proposed.toString('utf-8'));
+
+        await vscode.commands.executeCommand('vscode.diff', current, effective, `${relPath}: current ↔ effective rules`, { preview: true });
+    }
+
+    /** Open the cached repository file a synced rule was copied from. */
+    public async openUpstreamRule(node: RuleNode): Promise<void> {
+        const config = this.configManager.getConfig(node.folder);
+        const source = resolveSources(config).find(candidate => candidate.repoUrl === node.file.source);
+        if (!source) {
+            vscode.window.showWarningMessage(`${node.file.source} is no longer configured${this.describeFolder(node.folder)}.`);
+            return;
+        }
+
+        const upstream = vscode.Uri.file(path.join(this.gitManager.getRepositoryPath(source, config), node.file.path));
+        try {
+            await vscode.workspace.fs.stat(upstream);
+        } catch {
+            vscode.window.showWarningMessage(`${node.file.path} is no longer in the cached copy of ${source.repoUrl}.`);
+            return;
+        }
+        await vscode.commands.executeCommand('vscode.open', upstream);
+    }
+
+    /**
+     * Add the repository path of a synced rule to the folder's exclude
+     * patterns; the configuration change re-syncs the folder.
+     */
+    public async excludeRule(node: RuleNode): Promise<void> {
+        const action = await vscode.window.showWarningMessage(
+            `Stop syncing ${node.file.path} from ${node.file.source}${this.describeFolder(node.folder)}?`,
+            { modal: true },
+            'Exclude'
+        );
+        if (action !== 'Exclude') {
+            return;
+        }
+
+        await this.configManager.addExcludePattern(node.file.source, node.file.path, node.folder);
+        this.logger.info(`Excluded ${node.file.path} of ${node.file.source}${this.describeFolder(node.folder)}`);
+    }
+
+    /** Quick actions offered when the status bar item is clicked. */
+    public async showStatusMenu(): Promise<void> {
+        const items: (vscode.QuickPickItem & { run: () => Thenable<unknown> | void })[] = [
+            { label: '$(sync) Refresh Rules', run: () => vscode.commands.executeCommand('aiRulesSyncer.refreshRules') },
+            { label: '$(settings-gear) Show Current Configuration', run: () => vscode.commands.executeCommand('aiRulesSyncer.showConfiguration') },
+            { label: '$(output) Show Log', run: () => this.logger.show() }
+        ];
+        const pick = await vscode.window.showQuickPick(items, { placeHolder: 'AI Rules Syncer' });
+        await pick?.run();
+    }
+
+    /** List the cached clones; the selected ones are removed after confirmation. */
+    public async showCachedRepositories(): Promise<void> {
+        const { repositories, inUse } = await this.listCachedRepositories();
+        if (repositories.length === 0) {
+            vscode.window.showInformationMessage('No repositories are cached.');
+            return;
+        }
+
+        const picks = await vscode.window.showQuickPick(
+            repositories.map(repository => ({
+                label: repository.slug,
+                description: repository.repoUrl,
+                detail: [
+                    `Last used ${repository.lastUsed.toLocaleString()}`,
+                    formatSize(repository.size),
+                    inUse.has(repository.repoPath) ? 'in use' : undefined
+                ].filter(Boolean).join(' · '),
+                repository
+            })),
+            { canPickMany: true, matchOnDescription: true, placeHolder: 'Cached repositories – select the ones to remove' }
+        );
+        if (picks?.length) {
+            await this.removeCachedRepositories(picks.map(pick => pick.repository), inUse);
+        }
+    }
+
+    /** Remove every cached clone after confirmation. */
+    public async clearCache(): Promise<void> {
+        const { repositories, inUse } = await this.listCachedRepositories();
+        if (repositories.length === 0) {
+            vscode.window.showInformationMessage('No repositories are cached.');
+            return;
+        }
+        await this.removeCachedRepositories(repositories, inUse);
+    }
+
+    /** The clones in the cache directories of the open folders and the ones their configuration uses. */
+    private async listCachedRepositories(): Promise<{ repositories: CachedRepository[]; inUse: Set<string> }> {
+        const repositories: CachedRepository[] = [];
+        const inUse = new Set<string>();
+        for (const [cacheDirPath, usage] of this.getCacheDirectories()) {
+            repositories.push(...await this.gitManager.listCachedRepositories(cacheDirPath));
+            usage.inUse.forEach(repoPath => inUse.add(repoPath));
+        }
+        return { repositories, inUse };
+    }
+
+    /** Confirm and remove clones; folders whose clones were removed are synced again. */
+    private async removeCachedRepositories(repositories: CachedRepository[], inUse: ReadonlySet<string>): Promise<void> {
+        const size = formatSize(repositories.reduce((total, repository) => total + repository.size, 0));
+        const action = await vscode.window.showWarningMessage(
+            `Remove ${repositories.length} cached repositor${repositories.length === 1 ? 'y' : 'ies'} (${size})? Repositories in use are cloned again.`,
+            { modal: true },
+            'Remove'
+        );
+        if (action !== 'Remove') {
+            return;
+        }
+
+        for (const repository of repositories) {
+            await this.gitManager.removeCachedRepository(repository.repoPath);
+        }
+        vscode.window.showInformationMessage(`Removed ${repositories.length} cached repositor${repositories.length === 1 ? 'y' : 'ies'} (${size}).`);
+
+        if (repositories.some(repository => inUse.has(repository.repoPath))) {
+            await this.syncRules();
+        }
+    }
+
+    /** Remove clones unused for `cacheRetentionDays`; failures are only logged. */
+    private async pruneCache(): Promise<void> {
+        for (const [cacheDirPath, { retentionDays, inUse }] of this.getCacheDirectories()) {
+            if (retentionDays <= 0) {
+                continue;
+            }
+            try {
+                const removed = await this.gitManager.pruneCache(cacheDirPath, retentionDays, inUse);
+                if (removed.length > 0) {
+                    this.logger.info(`Pruned cached repositories unused for ${retentionDays} days: ${removed.map(repository => repository.slug).join(', ')}`);
+                }
+            } catch (error) {
+                this.logger.warn(`Could not prune ${cacheDirPath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    /** Cache directories of the open folders with their retention and the clones their configuration uses. */
+    private getCacheDirectories(): Map<string, { retentionDays: number; inUse: Set<string> }> {
+        const directories = new Map<string, { retentionDays: number; inUse: Set<string> }>();
+        const folders = this.getWorkspaceFolders();
+        for (const folder of folders.length > 0 ? folders : [undefined]) {
+            const config = this.configManager.getConfig(folder);
+            const usage = directories.get(config.cacheDirPath) ?? { retentionDays: config.cacheRetentionDays ?? 30, inUse: new Set<string>() };
+            for (const source of resolveSources(config)) {
+                usage.inUse.add(this.gitManager.getRepositoryPath(source, config));
+            }
+            directories.set(config.cacheDirPath, usage);
+        }
+        return directories;
+    }
+
+    /**
+     * The configured workspace folder a command applies to; asks when there
+     * are several. Warns and returns `undefined` when none is configured.
+     */
+    private async pickConfiguredFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+        const configuredFolders = this.getWorkspaceFolders().filter(folder => this.configManager.isConfigured(folder));
+        if (configuredFolders.length === 0) {
+            vscode.window.showWarningMessage('AI Rules Syncer is not configured. Set a repository URL first.');
+            return undefined;
+        }
+
+        return configuredFolders.length === 1
+            ? configuredFolders[0]
+            : await vscode.window.showWorkspaceFolderPick({ placeHolder });
     }
 
     public async showConfigurationWizard(): Promise<void> {
@@ -353,6 +1277,23 @@ export class RulesManager {
             clearInterval(this.syncTimer);
             this.syncTimer = undefined;
         }
+        this.disposeLanguageWatchers();
+        this.disposeProjectFileWatchers();
+        for (const timer of this.projectResyncTimers.values()) {
+            clearTimeout(timer);
+        }
         this.gitManager.dispose();
     }
-}
\ No newline at end of file
+}
+
+/** Human-readable size, e.g. `1.4 MB`. */
+function formatSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
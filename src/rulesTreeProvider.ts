@@ -0,0 +1,201 @@
+/**
+ * Sidebar view of the synced rules.
+ * Lists the files recorded in each workspace folder's sync manifest, grouped
+ * by the repository category they were selected through, with the source
+ * repository, commit and how each rule is applied. Rules changed or disabled
+ * by the workspace's overrides file are marked.
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConfigManager } from './configManager';
+import { FileSyncer, ManifestFile, SyncManifest } from './fileSyncer';
+import { RuleMetadata, RuleType, getRuleMetadata, getRuleType, parseFrontmatter } from './frontmatter';
+import { OverrideKind } from './overrides';
+
+/** Id of the view contributed in `package.json`. */
+export const RULES_VIEW_ID = 'aiRulesSyncer.rules';
+
+/** A workspace folder; only shown when the workspace has several. */
+export interface FolderNode {
+    kind: 'folder';
+    folder: vscode.WorkspaceFolder;
+}
+
+export interface CategoryNode {
+    kind: 'category';
+    folder: vscode.WorkspaceFolder;
+    name: string;
+    rules: RuleNode[];
+}
+
+/** A synced file; passed to the context-menu commands of the view. */
+export interface RuleNode {
+    kind: 'rule';
+    folder: vscode.WorkspaceFolder;
+    /** Path relative to the rules folder. */
+    relPath: string;
+    /** Absolute path in the rules folder. */
+    fullPath: string;
+    file: ManifestFile;
+    /** Commit of the source repository at the last sync, when known. */
+    commit?: string;
+    /** Frontmatter of `.mdc` rules; `undefined` for other files. */
+    metadata?: RuleMetadata;
+    /** Disabled by the overrides file, so not in the rules folder. */
+    disabled?: boolean;
+}
+
+export type RulesTreeNode = FolderNode | CategoryNode | RuleNode;
+
+const RULE_TYPE_LABELS: Record<RuleType, string> = {
+    always: 'always applied',
+    auto: 'glob-scoped',
+    agent: 'agent-requested',
+    manual: 'manual'
+};
+
+const OVERRIDE_LABELS: Record<OverrideKind, string> = {
+    replaced: 'replaced locally',
+    appended: 'extended locally'
+};
+
+export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeNode> {
+    private changeEmitter = new vscode.EventEmitter<RulesTreeNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private configManager: ConfigManager,
+        private fileSyncer: FileSyncer
+    ) { }
+
+    /** Re-read the manifests, e.g. after a sync or a configuration change. */
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    public async getChildren(node?: RulesTreeNode): Promise<RulesTreeNode[]> {
+        if (!node) {
+            const folders = (vscode.workspace.workspaceFolders ?? []).filter(folder => this.configManager.isConfigured(folder));
+            if (folders.length === 1 && vscode.workspace.workspaceFolders?.length === 1) {
+                return this.getCategories(folders[0]!);
+            }
+            return folders.map(folder => ({ kind: 'folder', folder }));
+        }
+        if (node.kind === 'folder') {
+            return this.getCategories(node.folder);
+        }
+        return node.kind === 'category' ? node.rules : [];
+    }
+
+    public getTreeItem(node: RulesTreeNode): vscode.TreeItem {
+        if (node.kind === 'folder') {
+            const item = new vscode.TreeItem(node.folder.name, vscode.TreeItemCollapsibleState.Expanded);
+            item.iconPath = vscode.ThemeIcon.Folder;
+            return item;
+        }
+
+        if (node.kind === 'category') {
+            const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Expanded);
+            item.iconPath = new vscode.ThemeIcon('folder-library');
+            item.description = `${node.rules.length} file${node.rules.length === 1 ? '' : 's'}`;
+            return item;
+        }
+
+        const { file, metadata, commit } = node;
+        const category = file.category ?? file.path.split('/')[0]!;
+        const label = file.path.startsWith(`${category}/`) ? file.path.slice(category.length + 1) : path.posix.basename(file.path);
+        const ruleType = metadata ? RULE_TYPE_LABELS[getRuleType(metadata)] : undefined;
+        const source = `${getRepositoryName(file.source)}${commit ? `@${commit.slice(0, 7)}` : ''}`;
+
+        const overrides = node.disabled ? ['disabled locally'] : (file.overrides ?? []).map(kind => OVERRIDE_LABELS[kind]);
+
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        const uri = vscode.Uri.file(node.fullPath);
+        if (node.disabled) {
+            // Not in the rules folder: nothing to open or exclude
+            item.iconPath = new vscode.ThemeIcon('circle-slash');
+            item.contextValue = 'aiRulesSyncer.disabledRule';
+        } else {
+            item.resourceUri = uri;
+            item.contextValue = 'aiRulesSyncer.rule';
+            item.command = { command: 'vscode.open', title: 'Open Rule', arguments: [uri] };
+        }
+        item.description = [...overrides, ruleType, source].filter(Boolean).join(' · ');
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${node.relPath}**\n\n`);
+        tooltip.appendMarkdown(`Source: ${file.source}\n\n`);
+        tooltip.appendMarkdown(`Repository path: \`${file.path}\`\n\n`);
+        tooltip.appendMarkdown(`Commit: ${commit ?? 'unknown'}\n\n`);
+        if (overrides.length > 0) {
+            tooltip.appendMarkdown(`Overrides: ${overrides.join(', ')}\n\n`);
+        }
+        if (metadata && ruleType) {
+            tooltip.appendMarkdown(`Applied: ${ruleType}${metadata.globs.length > 0 ? ` (\`${metadata.globs.join('`, `')}\`)` : ''}\n\n`);
+            if (metadata.description) {
+                tooltip.appendText(metadata.description);
+            }
+        }
+        item.tooltip = tooltip;
+        return item;
+    }
+
+    private async getCategories(folder: vscode.WorkspaceFolder): Promise<CategoryNode[]> {
+        const { rulesFolderPath } = this.configManager.getConfig(folder);
+        const manifest = await this.fileSyncer.readManifest(rulesFolderPath);
+        if (!manifest) {
+            return [];
+        }
+
+        const categories = new Map<string, CategoryNode>();
+        const entries = [
+            ...Object.entries(manifest.files).map(([relPath, file]) => ({ relPath, file, disabled: false })),
+            ...Object.entries(manifest.disabled ?? {}).map(([relPath, file]) => ({ relPath, file, disabled: true }))
+        ];
+        for (const { relPath, file, disabled } of entries) {
+            // Manifests written before categories were recorded: use the top-level folder
+            const name = file.category ?? file.path.split('/')[0]!;
+            let category = categories.get(name);
+            if (!category) {
+                category = { kind: 'category', folder, name, rules: [] };
+                categories.set(name, category);
+            }
+
+            const fullPath = path.join(rulesFolderPath, relPath);
+            category.rules.push({
+                kind: 'rule',
+                folder,
+                relPath,
+                fullPath,
+                file,
+                commit: findCommit(manifest, file.source),
+                metadata: relPath.endsWith('.mdc') && !disabled ? await readMetadata(fullPath) : undefined,
+                disabled: disabled || undefined
+            });
+        }
+
+        return [...categories.values()].sort((a, b) => a.name.localeCompare(b.name));
+    }
+}
+
+function findCommit(manifest: SyncManifest, repoUrl: string): string | undefined {
+    return manifest.sources.find(source => source.repoUrl === repoUrl)?.commit;
+}
+
+async function readMetadata(fullPath: string): Promise<RuleMetadata | undefined> {
+    try {
+        return getRuleMetadata(parseFrontmatter(await fs.readFile(fullPath, 'utf-8')));
+    } catch {
+        return undefined; // removed locally since the last sync
+    }
+}
+
+/** `https://host/org/rules.git` → `org/rules`. */
+function getRepositoryName(repoUrl: string): string {
+    return repoUrl.replace(/\.git$/, '').split(/[/:]/).filter(Boolean).slice(-2).join('/');
+}
@@ -0,0 +1,79 @@
+/**
+ * Commit signature checks for rules repositories.
+ * Rules steer code generation, so with `signatureVerification` enabled the
+ * synced commit must carry a good GPG or SSH signature by one of the keys in
+ * `allowedSigners`. Keys are identified by fingerprint:
+ *
+ *   • GPG – the 40 hex digit fingerprint or the 16 hex digit long key ID
+ *           (the key must be in the user's GPG keyring);
+ *   • SSH – the `SHA256:…` fingerprint printed by `ssh-keygen -lf key.pub`.
+ */
+
+export interface SignatureCheck {
+    verified: boolean;
+    /** Fingerprint of the allowed key that signed the commit. */
+    signer?: string;
+    /** Why the commit is not verified. */
+    reason?: string;
+}
+
+/** `git log --format` placeholders parsed by {@link evaluateSignature}. */
+export const SIGNATURE_FORMAT = '%G?%x1f%GF%x1f%GP%x1f%GS';
+
+const SSH_FINGERPRINT = /^SHA256:[A-Za-z0-9+/]{43}=?$/;
+
+/**
+ * Check an `allowedSigners` entry.
+ *
+ * @returns A description of the problem, or `undefined` when the entry is valid.
+ */
+export function validateAllowedSigner(entry: string): string | undefined {
+    const key = normalizeKey(entry);
+    if (SSH_FINGERPRINT.test(key) || /^([0-9A-F]{16}|[0-9A-F]{40})$/.test(key)) {
+        return undefined;
+    }
+    return 'must be a GPG fingerprint (40 hex digits), a long GPG key ID (16 hex digits) or an SSH key fingerprint (SHA256:…)';
+}
+
+/**
+ * Decide whether a commit is verified from the output of
+ * `git log -1 --format=<SIGNATURE_FORMAT>`.
+ */
+export function evaluateSignature(output: string, allowedSigners: string[]): SignatureCheck {
+    const [status = 'N', fingerprint = '', primaryFingerprint = '', signerName = ''] = output.trim().split('\x1f');
+
+    switch (status) {
+        case 'G':
+        case 'U':
+            break; // good signature; the key is checked below
+        case 'B':
+            return { verified: false, reason: 'the signature is bad' };
+        case 'X':
+            return { verified: false, reason: 'the signature has expired' };
+        case 'Y':
+            return { verified: false, reason: 'the signing key has expired' };
+        case 'R':
+            return { verified: false, reason: 'the signing key has been revoked' };
+        case 'E':
+            return { verified: false, reason: 'the signature cannot be checked (is the signing key in your GPG keyring?)' };
+        default:
+            return { verified: false, reason: 'the commit is not signed' };
+    }
+
+    const keys = [fingerprint, primaryFingerprint].filter(Boolean).map(normalizeKey);
+    const allowed = allowedSigners.map(normalizeKey).some(signer =>
+        keys.some(key => key === signer || (!SSH_FINGERPRINT.test(signer) && key.endsWith(signer))));
+    if (!allowed) {
+        return {
+            verified: false,
+            reason: `it is signed by ${fingerprint || 'an unknown key'}${signerName ? ` (${signerName})` : ''}, which is not an allowed signer`
+        };
+    }
+    return { verified: true, signer: fingerprint };
+}
+
+/** SSH fingerprints are case-sensitive base64; GPG ones are compared as upper-case hex without spaces. */
+function normalizeKey(key: string): string {
+    const trimmed = key.trim();
+    return trimmed.startsWith('SHA256:') ? trimmed : trimmed.replace(/^0x/i, '').replace(/\s+/g, '').toUpperCase();
+}
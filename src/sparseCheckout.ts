@@ -0,0 +1,76 @@
+/**
+ * Sparse checkout of shared cache clones.
+ * Clones are partial (`--filter=blob:none`) and only check out what the
+ * workspaces using them copy: every category in full, except team
+ * categories, of which only the configured team folders are checked out.
+ * Hidden folders and, with an `ai-rules.json`, undeclared folders are left
+ * out. Several workspaces share one clone, so each records its team
+ * selection in a registry inside the clone's `.git` folder and the sparse
+ * set is the union of all recorded selections.
+ */
+import { RepoCategory } from './repoManifest';
+
+/** Registry of the workspaces using a clone, inside its `.git` folder. */
+export const SPARSE_REGISTRY_FILE = 'ai-rules-sparse.json';
+
+/** Workspaces that have not synced for this long no longer widen the sparse set. */
+export const SPARSE_CONSUMER_MAX_AGE_DAYS = 30;
+
+/** What one workspace needs from a shared clone. */
+export interface SparseConsumer {
+    /** Workspace folder (or rules folder) the selection belongs to. */
+    folder: string;
+    /** Configured teams; absent when the workspace needs the whole repository. */
+    teamNames?: string[];
+    /** Last sync of the workspace, ISO 8601. */
+    lastUsed: string;
+}
+
+export interface SparseRegistry {
+    version: 1;
+    /** Keyed by workspace folder and source destination. */
+    consumers: Record<string, SparseConsumer>;
+}
+
+/**
+ * Cone-mode sparse-checkout directories covering the categories for all
+ * consumers. Cone mode also checks out the files directly inside the parents
+ * of every directory, so root files such as `ai-rules.json` stay available.
+ *
+ * @returns `undefined` when a consumer needs the whole repository.
+ */
+export function computeSparsePaths(categories: RepoCategory[], consumers: SparseConsumer[]): string[] | undefined {
+    if (consumers.some(consumer => !consumer.teamNames)) {
+        return undefined;
+    }
+
+    const teamNames = new Set(consumers.flatMap(consumer => consumer.teamNames ?? []));
+    const paths = new Set<string>();
+    for (const category of categories) {
+        if (category.type === 'team') {
+            for (const teamName of teamNames) {
+                paths.add(`${category.path}/${teamName}`);
+            }
+        } else {
+            paths.add(category.path);
+        }
+    }
+    return [...paths].sort();
+}
+
+/**
+ * Drop consumers that have not synced for {@link SPARSE_CONSUMER_MAX_AGE_DAYS}
+ * days or whose folder no longer exists.
+ */
+export async function pruneConsumers(
+    registry: SparseRegistry,
+    folderExists: (folder: string) => Promise<boolean>,
+    now: Date = new Date()
+): Promise<void> {
+    const cutoff = now.getTime() - SPARSE_CONSUMER_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+    for (const [key, consumer] of Object.entries(registry.consumers)) {
+        if (!(Date.parse(consumer.lastUsed) >= cutoff) || !await folderExists(consumer.folder)) {
+            delete registry.consumers[key];
+        }
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * Status bar item showing the sync state of the workspace.
+ * Each configured workspace folder reports its own state; the item shows the
+ * most pressing one and its tooltip lists every folder.
+ */
+import * as vscode from 'vscode';
+
+/** Command run when the item is clicked. */
+export const STATUS_MENU_COMMAND = 'aiRulesSyncer.showStatusMenu';
+
+export type SyncState =
+    | { kind: 'syncing' }
+    | { kind: 'upToDate'; commit?: string }
+    | { kind: 'offline'; commit?: string }
+    | { kind: 'invalidConfig'; message: string }
+    | { kind: 'error'; message: string };
+
+/** Most pressing first. */
+const PRIORITY: SyncState['kind'][] = ['syncing', 'error', 'invalidConfig', 'offline', 'upToDate'];
+
+export class SyncStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private states = new Map<string, { name: string; state: SyncState }>();
+
+    constructor() {
+        this.item = vscode.window.createStatusBarItem('aiRulesSyncer.status', vscode.StatusBarAlignment.Left);
+        this.item.name = 'AI Rules Syncer';
+        this.item.command = STATUS_MENU_COMMAND;
+    }
+
+    public setState(folder: vscode.WorkspaceFolder, state: SyncState): void {
+        this.states.set(folder.uri.toString(), { name: folder.name, state });
+        this.render();
+    }
+
+    /** Forget a folder that was removed or is no longer configured. */
+    public clearState(folder: vscode.WorkspaceFolder): void {
+        if (this.states.delete(folder.uri.toString())) {
+            this.render();
+        }
+    }
+
+    public dispose(): void {
+        this.item.dispose();
+    }
+
+    private render(): void {
+        const entries = [...this.states.values()];
+        const current = entries
+            .map(entry => entry.state)
+            .sort((a, b) => PRIORITY.indexOf(a.kind) - PRIORITY.indexOf(b.kind))[0];
+        if (!current) {
+            this.item.hide();
+            return;
+        }
+
+        switch (current.kind) {
+            case 'syncing':
+                this.item.text = '$(sync~spin) AI Rules';
+                break;
+            case 'upToDate':
+                this.item.text = `$(check) AI Rules${current.commit ? ` ${current.commit.slice(0, 7)}` : ''}`;
+                break;
+            case 'offline':
+                this.item.text = '$(cloud-offline) AI Rules (offline)';
+                break;
+            case 'invalidConfig':
+                this.item.text = '$(warning) AI Rules: config invalid';
+                break;
+            case 'error':
+                this.item.text = '$(error) AI Rules: sync failed';
+                break;
+        }
+        this.item.backgroundColor = current.kind === 'error'
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : current.kind === 'invalidConfig' || current.kind === 'offline'
+                ? new vscode.ThemeColor('statusBarItem.warningBackground')
+                : undefined;
+        this.item.tooltip = entries
+            .map(({ name, state }) => entries.length > 1 ? `${name}: ${describeState(state)}` : describeState(state))
+            .join('\n');
+        this.item.show();
+    }
+}
+
+function describeState(state: SyncState): string {
+    switch (state.kind) {
+        case 'syncing':
+            return 'Syncing rules…';
+        case 'upToDate':
+            return `Rules up to date${state.commit ? ` at ${state.commit.slice(0, 7)}` : ''}`;
+        case 'offline':
+            return `Repository unreachable, using cached rules${state.commit ? ` at ${state.commit.slice(0, 7)}` : ''}`;
+        case 'invalidConfig':
+            return `Configuration invalid: ${state.message}`;
+        case 'error':
+            return `Sync failed: ${state.message}`;
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * Sync planning for AI rules.
+ * Compares the desired rules tree (from the cached repositories) with the
+ * current contents of the rules folder by content hash and derives the
+ * minimal set of file operations needed to make them match.
+ * All paths are relative to the rules folder and use forward slashes.
+ */
+import { createHash } from 'crypto';
+
+export interface SyncPlan {
+    /** Files present in the source but not in the destination. */
+    added: string[];
+    /** Files present in both whose content differs. */
+    modified: string[];
+    /** Files present in the destination that no longer exist in the source. */
+    removed: string[];
+    /** Files present in both with identical content. */
+    unchanged: string[];
+}
+
+/** Hex-encoded SHA-256 of a file's content. */
+export function hashContent(content: Buffer | string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Compute the operations required to turn `existing` into `desired`.
+ *
+ * @param desired  Map of relative path to content hash for the source tree.
+ * @param existing Map of relative path to content hash for the destination.
+ */
+export function planSync(desired: ReadonlyMap<string, string>, existing: ReadonlyMap<string, string>): SyncPlan {
+    const plan: SyncPlan = { added: [], modified: [], removed: [], unchanged: [] };
+
+    for (const [relPath, hash] of desired) {
+        const existingHash = existing.get(relPath);
+        if (existingHash === undefined) {
+            plan.added.push(relPath);
+        } else if (existingHash !== hash) {
+            plan.modified.push(relPath);
+        } else {
+            plan.unchanged.push(relPath);
+        }
+    }
+
+    for (const relPath of existing.keys()) {
+        if (!desired.has(relPath)) {
+            plan.removed.push(relPath);
+        }
+    }
+
+    plan.added.sort();
+    plan.modified.sort();
+    plan.removed.sort();
+    plan.unchanged.sort();
+    return plan;
+}
+
+/** Whether a plan contains any file operation. */
+export function hasChanges(plan: SyncPlan): boolean {
+    return plan.added.length + plan.modified.length + plan.removed.length > 0;
+}
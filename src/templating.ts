@@ -0,0 +1,105 @@
+/**
+ * Variable templating of rule files.
+ * With `templating` on, placeholders such as `{{ vars.serviceName }}` in
+ * synced Markdown rules are replaced with project values. Rendering is plain
+ * substitution: there are no expressions, conditionals or includes, and
+ * values are inserted verbatim. Variables come from three namespaces:
+ *   • `vars.<name>`      – the `templateVariables` setting.
+ *   • `package.<field>` – string, number and boolean fields of the workspace
+ *                          folder's `package.json`, e.g. `package.engines.node`.
+ *   • `workspace.name` / `workspace.rulesFolder` – the workspace folder name
+ *                          and the workspace-relative rules folder.
+ * Only placeholders in these namespaces are rendered, so `{{ ... }}` in code
+ * examples (Vue, Handlebars, Go templates) is left alone.
+ */
+
+/** Placeholder namespaces; other `{{ ... }}` text is not a template variable. */
+export const TEMPLATE_NAMESPACES = ['vars', 'package', 'workspace'] as const;
+
+/** Rule files that are rendered; other files are copied verbatim. */
+export const TEMPLATE_FILE_EXTENSIONS = ['.mdc', '.md'];
+
+/** Nesting depth up to which `package.json` fields become variables. */
+const MAX_PACKAGE_DEPTH = 4;
+
+const VARIABLE_NAME = /^[A-Za-z0-9_$@/-]+(?:\.[A-Za-z0-9_$@/-]+)*$/;
+const PLACEHOLDER = new RegExp(`\\{\\{\\s*((?:${TEMPLATE_NAMESPACES.join('|')})\\.[A-Za-z0-9_$@/.-]+)\\s*\\}\\}`, 'g');
+
+/** A placeholder without a value; left in the rendered text as it is. */
+export interface UnresolvedVariable {
+    /** Full variable name, e.g. `vars.serviceName`. */
+    name: string;
+    /** 1-based line in the rendered text. */
+    line: number;
+    /** 1-based column, in UTF-16 code units like VS Code positions. */
+    column: number;
+    /** Length of the placeholder. */
+    length: number;
+}
+
+export interface RenderedTemplate {
+    content: string;
+    unresolved: UnresolvedVariable[];
+}
+
+/**
+ * Replace the placeholders in `content`.
+ *
+ * @param variables Values keyed by full variable name, e.g. `package.name`.
+ */
+export function renderTemplate(content: string, variables: Readonly<Record<string, string>>): RenderedTemplate {
+    const unresolvedAt: { name: string; index: number; length: number }[] = [];
+    let rendered = '';
+    let last = 0;
+    for (const match of content.matchAll(PLACEHOLDER)) {
+        const name = match[1]!;
+        rendered += content.slice(last, match.index);
+        if (Object.prototype.hasOwnProperty.call(variables, name)) {
+            rendered += variables[name];
+        } else {
+            unresolvedAt.push({ name, index: rendered.length, length: match[0].length });
+            rendered += match[0];
+        }
+        last = match.index! + match[0].length;
+    }
+    rendered += content.slice(last);
+
+    const unresolved = unresolvedAt.map(({ name, index, length }) => {
+        const lineStart = rendered.lastIndexOf('\n', index - 1) + 1;
+        const line = rendered.slice(0, lineStart).split('\n').length;
+        return { name, line, column: index - lineStart + 1, length };
+    });
+    return { content: rendered, unresolved };
+}
+
+/** Flatten the fields of a parsed `package.json` into `package.*` variables. */
+export function getPackageVariables(packageJson: unknown): Record<string, string> {
+    const variables: Record<string, string> = {};
+    if (!packageJson || typeof packageJson !== 'object') {
+        return variables;
+    }
+    const visit = (value: unknown, name: string, depth: number) => {
+        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+            variables[name] = String(value);
+        } else if (value && typeof value === 'object' && !Array.isArray(value) && depth < MAX_PACKAGE_DEPTH) {
+            for (const [key, child] of Object.entries(value)) {
+                if (VARIABLE_NAME.test(key)) {
+                    visit(child, `${name}.${key}`, depth + 1);
+                }
+            }
+        }
+    };
+    visit(packageJson, 'package', 0);
+    return variables;
+}
+
+/**
+ * Check a `templateVariables` name.
+ *
+ * @returns A description of the problem, or `undefined` when the name is valid.
+ */
+export function validateVariableName(name: string): string | undefined {
+    return VARIABLE_NAME.test(name)
+        ? undefined
+        : 'names may only contain letters, digits and _ $ @ / - separated by dots';
+}
@@ -0,0 +1,39 @@
+/**
+ * Unit tests for the "what changed" notification and report.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { renderChangeReport, summarizeUpdate, SourceUpdate } from '../changeReport';
+import { SyncPlan } from '../syncPlanner';
+
+describe('changeReport', () => {
+    const plan: SyncPlan = { added: ['language/go.mdc'], modified: ['general/tone.mdc'], removed: [], unchanged: ['general/style.mdc'] };
+    const updates: SourceUpdate[] = [{
+        repoUrl: 'https://github.com/org/rules.git',
+        previousCommit: 'a'.repeat(40),
+        commit: 'c'.repeat(40),
+        commits: [
+            { sha: 'c'.repeat(40), author: 'Ada', subject: 'Add Go rules' },
+            { sha: 'b'.repeat(40), author: 'Linus', subject: 'Tighten *tone*' }
+        ]
+    }];
+
+    it('summarizes commits and file changes in one line', () => {
+        assert.strictEqual(summarizeUpdate(updates, plan), 'AI rules updated (2 new commits): 1 added, 1 modified, 0 removed.');
+        assert.strictEqual(summarizeUpdate([{ ...updates[0]!, commits: [] }], plan),
+            'AI rules updated (a new revision): 1 added, 1 modified, 0 removed.');
+    });
+
+    it('renders commits per source and the changed files', () => {
+        const report = renderChangeReport(updates, plan, 'api');
+
+        assert.ok(report.startsWith('# AI rules update – api\n'));
+        assert.ok(report.includes('`aaaaaaa` → `ccccccc`'));
+        assert.ok(report.includes('- Add Go rules — Ada (`ccccccc`)'));
+        assert.ok(report.includes('- Tighten \\*tone\\* — Linus (`bbbbbbb`)'));
+        assert.ok(report.includes('### Added\n\n- `language/go.mdc`'));
+        assert.ok(report.includes('### Modified\n\n- `general/tone.mdc`'));
+        assert.ok(!report.includes('### Removed'));
+        assert.ok(!report.includes('general/style.mdc'));
+    });
+});
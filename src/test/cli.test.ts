@@ -0,0 +1,129 @@
+import assert from 'assert';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { DEFAULT_CONFIG_FILE, EXIT_OK, EXIT_OUT_OF_DATE, EXIT_USAGE, loadConfig, parseCliArgs, run } from '../cli';
+import { FileSyncer } from '../fileSyncer';
+import { readRulesConfig } from '../rulesConfig';
+
+const createTestLogger = () => ({
+    info: (_: string) => { },
+    warn: (_: string) => { },
+    debug: (_: string) => { },
+    error: (_: string) => { }
+} as any);
+
+async function writeFile(filePath: string, content: string) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf-8');
+}
+
+describe('cli', () => {
+    const tmpRoot = path.join(os.tmpdir(), `ai-rules-syncer-cli-test-${Date.now()}`);
+    const workspace = path.join(tmpRoot, 'ws');
+
+    beforeEach(async () => {
+        await fs.mkdir(workspace, { recursive: true });
+    });
+
+    afterEach(async () => {
+        try { await fs.rm(tmpRoot, { recursive: true, force: true }); } catch { }
+    });
+
+    describe('parseCliArgs', () => {
+        it('maps flags and --set to settings', () => {
+            const options = parseCliArgs([
+                'sync', '-w', 'ws', '--repo-url', 'https://github.com/org/rules.git', '--teams', 'web,api',
+                '--cache-dir', 'cache', '--set', 'aiRulesSyncer.templating=true', '--set', 'outputTargets=["claude"]', '--set', 'branch=main'
+            ], '/work');
+
+            assert.strictEqual(options.command, 'sync');
+            assert.strictEqual(options.workspace, path.resolve('/work', 'ws'));
+            assert.deepStrictEqual(options.settings, {
+                repoUrl: 'https://github.com/org/rules.git',
+                teamNames: 'web,api',
+                cacheDirPath: path.resolve('/work', 'cache'),
+                templating: true,
+                outputTargets: ['claude'],
+                branch: 'main'
+            });
+            assert.strictEqual(options.logLevel, 'info');
+        });
+
+        it('rejects unknown commands, flags and malformed --set', () => {
+            assert.throws(() => parseCliArgs(['pull']), /Unknown command 'pull'/);
+            assert.throws(() => parseCliArgs(['sync', '--force']));
+            assert.throws(() => parseCliArgs(['sync', '--set', 'templating']), /--set expects <key>=<value>/);
+        });
+    });
+
+    describe('loadConfig', () => {
+        it('reads the settings file with the extension defaults and lets flags win', async () => {
+            await writeFile(path.join(workspace, DEFAULT_CONFIG_FILE), JSON.stringify({
+                'aiRulesSyncer.repoUrl': 'https://github.com/org/rules.git',
+                'teamNames': 'web',
+                'cacheDirPath': '.cache/rules'
+            }));
+
+            const config = await loadConfig(parseCliArgs(['sync', '-w', workspace, '--teams', 'api']));
+
+            const expected = readRulesConfig({
+                get: <T>(key: string, defaultValue: T): T => (({
+                    repoUrl: 'https://github.com/org/rules.git',
+                    teamNames: 'api',
+                    cacheDirPath: path.join(workspace, '.cache/rules')
+                } as Record<string, unknown>)[key] ?? defaultValue) as T
+            }, workspace);
+            assert.deepStrictEqual(config, expected);
+            assert.strictEqual(config.rulesFolderPath, path.join(workspace, '.cursor/rules/remote'));
+            assert.deepStrictEqual(config.teamNames, ['api']);
+        });
+
+        it('fails on invalid configuration and unreadable settings files', async () => {
+            await assert.rejects(loadConfig(parseCliArgs(['sync', '-w', workspace])), /Configuration invalid: Repository URL is required/);
+            await assert.rejects(loadConfig(parseCliArgs(['sync', '-w', workspace, '-c', path.join(tmpRoot, 'missing.json')])), /Cannot read/);
+
+            await writeFile(path.join(workspace, DEFAULT_CONFIG_FILE), '["not", "settings"]');
+            await assert.rejects(loadConfig(parseCliArgs(['sync', '-w', workspace])), /must contain a JSON object/);
+        });
+    });
+
+    describe('run', () => {
+        it('exits with the usage code on bad arguments or configuration', async () => {
+            let output = '';
+            assert.strictEqual(await run(['sync', '--bogus'], text => { output += text; }), EXIT_USAGE);
+            assert.match(output, /Usage: ai-rules-sync/);
+            assert.strictEqual(await run(['status', '-w', workspace], () => { }), EXIT_USAGE);
+        });
+
+        it('reports the last sync and local edits in status', async () => {
+            const repoPath = path.join(tmpRoot, 'repo');
+            await writeFile(path.join(repoPath, 'general', 'tone.mdc'), 'tone');
+            await writeFile(path.join(repoPath, 'general', 'style.mdc'), 'style');
+            const args = ['status', '-w', workspace, '--repo-url', 'https://github.com/org/rules.git'];
+
+            let output = '';
+            assert.strictEqual(await run(args, text => { output += text; }), EXIT_OUT_OF_DATE);
+            assert.match(output, /No rules synced into/);
+
+            const config = await loadConfig(parseCliArgs(args));
+            await new FileSyncer(createTestLogger()).syncFiles([{ source: config.sources![0]!, repoPath, commit: 'abc1234567' }], config);
+
+            output = '';
+            assert.strictEqual(await run(args, text => { output += text; }), EXIT_OK);
+            assert.match(output, /Source: https:\/\/github.com\/org\/rules.git at default branch \(abc12345\)/);
+            assert.match(output, /Files: 2/);
+
+            await fs.appendFile(path.join(config.rulesFolderPath, 'general', 'tone.mdc'), ' edited');
+            await fs.rm(path.join(config.rulesFolderPath, 'general', 'style.mdc'));
+            output = '';
+            assert.strictEqual(await run(args, text => { output += text; }), EXIT_OUT_OF_DATE);
+            assert.match(output, /Missing: general\/style.mdc\nEdited locally: general\/tone.mdc/);
+
+            output = '';
+            assert.strictEqual(await run([...args, '--set', 'sources=[{"repoUrl":"https://github.com/org/more.git"}]'], text => { output += text; }), EXIT_OUT_OF_DATE);
+            assert.match(output, /The configured sources differ from the last sync/);
+        });
+    });
+});
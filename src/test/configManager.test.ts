@@ -60,6 +60,19 @@ describe('ConfigManager', () => {
             assert(errors[0]?.includes('Sync interval must be zero or positive'));
         });
 
+        it('should return errors for negative cache retention', () => {
+            const errors = configManager.validateConfig({
+                repoUrl: 'https://github.com/example/repo.git',
+                teamNames: [],
+                rulesFolderPath: '/test/path',
+                cacheDirPath: '/cache/path',
+                syncIntervalMinutes: 0,
+                branch: '',
+                cacheRetentionDays: -1
+            });
+            assert.deepStrictEqual(errors, ['Cache retention must be zero or positive']);
+        });
+
         it('should validate correct HTTPS URL', () => {
             const config = {
                 repoUrl: 'https://github.com/example/repo.git',
@@ -87,5 +100,136 @@ describe('ConfigManager', () => {
             const errors = configManager.validateConfig(config);
             assert.strictEqual(errors.length, 0);
         });
+
+        it('should check the rules folder against its own workspace folder', () => {
+            const config = {
+                repoUrl: 'https://github.com/example/repo.git',
+                teamNames: [],
+                rulesFolderPath: '/workspaces/api/.cursor/rules/remote',
+                cacheDirPath: '/cache/path',
+                syncIntervalMinutes: 0,
+                branch: ''
+            };
+
+            assert.strictEqual(configManager.validateConfig({ ...config, workspaceFolderPath: '/workspaces/api' }).length, 0);
+
+            const errors = configManager.validateConfig({ ...config, workspaceFolderPath: '/workspaces/web' });
+            assert.strictEqual(errors.length, 1);
+            assert(errors[0]?.includes('must be inside the workspace'));
+        });
+
+        it('should keep the overrides file inside the workspace folder', () => {
+            const config = {
+                repoUrl: 'https://github.com/example/repo.git',
+                teamNames: [],
+                rulesFolderPath: '/workspaces/api/.cursor/rules/remote',
+                cacheDirPath: '/cache/path',
+                syncIntervalMinutes: 0,
+                branch: '',
+                workspaceFolderPath: '/workspaces/api'
+            };
+
+            assert.deepStrictEqual(configManager.validateConfig({ ...config, overridesFile: 'config/ai-rules-overrides.json' }), []);
+            assert.deepStrictEqual(configManager.validateConfig({ ...config, overridesFile: '../shared/overrides.json' }), [
+                'Overrides file must be inside the workspace'
+            ]);
+        });
+
+        it('should reject malformed include and exclude patterns', () => {
+            const config = {
+                repoUrl: 'https://github.com/example/repo.git',
+                teamNames: [],
+                rulesFolderPath: '/test/path',
+                cacheDirPath: '/cache/path',
+                syncIntervalMinutes: 0,
+                branch: '',
+                include: ['general/**/*.mdc', '*.{md,mdc'],
+                exclude: ['role/**', '../secrets/**']
+            };
+
+            const errors = configManager.validateConfig(config);
+            assert.deepStrictEqual(errors, [
+                "Invalid include pattern '*.{md,mdc': unclosed '{'",
+                "Invalid exclude pattern '../secrets/**': pattern must not contain '..'"
+            ]);
+        });
+
+        it('should reject repositories outside the allowed repositories', () => {
+            const config = {
+                repoUrl: 'git@github.com:YourOrg/rules.git',
+                teamNames: [],
+                rulesFolderPath: '/test/path',
+                cacheDirPath: '/cache/path',
+                syncIntervalMinutes: 0,
+                branch: '',
+                allowedRepositories: ['github.com/YourOrg']
+            };
+
+            assert.deepStrictEqual(configManager.validateConfig(config), []);
+            assert.deepStrictEqual(configManager.validateConfig({ ...config, repoUrl: 'https://attacker.example/YourOrg/rules.git' }), [
+                'Repository https://attacker.example/YourOrg/rules.git is not in the allowed repositories (aiRulesSyncer.allowedRepositories)'
+            ]);
+        });
+
+        it('should require valid allowed signers when signature verification is enabled', () => {
+            const config = {
+                repoUrl: 'https://github.com/example/repo.git',
+                teamNames: [],
+                rulesFolderPath: '/test/path',
+                cacheDirPath: '/cache/path',
+                syncIntervalMinutes: 0,
+                branch: '',
+                signatureVerification: 'require' as const
+            };
+
+            assert.deepStrictEqual(configManager.validateConfig(config), [
+                "Signature verification 'require' requires at least one allowed signer"
+            ]);
+            const errors = configManager.validateConfig({ ...config, allowedSigners: ['D9F0A1B2'] });
+            assert.strictEqual(errors.length, 1);
+            assert(errors[0]?.startsWith("Invalid allowed signer 'D9F0A1B2': must be a GPG fingerprint"));
+        });
+
+        it('should reject invalid content scan patterns', () => {
+            const errors = configManager.validateConfig({
+                repoUrl: 'https://github.com/example/repo.git',
+                teamNames: [],
+                rulesFolderPath: '/test/path',
+                cacheDirPath: '/cache/path',
+                syncIntervalMinutes: 0,
+                branch: '',
+                contentScanPatterns: ['ignore previous instructions', '(unclosed']
+            });
+            assert.strictEqual(errors.length, 1);
+            assert(errors[0]?.startsWith("Invalid content scan pattern '(unclosed': "));
+        });
+
+        it('should reject invalid template variable names', () => {
+            const errors = configManager.validateConfig({
+                repoUrl: 'https://github.com/example/repo.git',
+                teamNames: [],
+                rulesFolderPath: '/test/path',
+                cacheDirPath: '/cache/path',
+                syncIntervalMinutes: 0,
+                branch: '',
+                templating: true,
+                templateVariables: { serviceName: 'billing', 'ticket prefix': 'BILL' }
+            });
+            assert.strictEqual(errors.length, 1);
+            assert(errors[0]?.startsWith("Invalid template variable name 'ticket prefix': "));
+        });
+
+        it('should require a positive maximum rule size', () => {
+            const config = {
+                repoUrl: 'https://github.com/example/repo.git',
+                teamNames: [],
+                rulesFolderPath: '/test/path',
+                cacheDirPath: '/cache/path',
+                syncIntervalMinutes: 0,
+                branch: ''
+            };
+            assert.deepStrictEqual(configManager.validateConfig({ ...config, maxRuleSizeKb: 64 }), []);
+            assert.deepStrictEqual(configManager.validateConfig({ ...config, maxRuleSizeKb: 0 }), ['Maximum rule size must be positive']);
+        });
     });
 });
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for rule frontmatter parsing.
+ * Tests the YAML-like subset used by `.mdc` files, including unquoted globs,
+ * block lists and error reporting with line numbers.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { getRuleMetadata, getRuleType, parseFrontmatter } from '../frontmatter';
+
+describe('frontmatter', () => {
+    describe('parseFrontmatter', () => {
+        it('should parse unquoted globs, quoted strings, booleans and block lists', () => {
+            const parsed = parseFrontmatter([
+                '---',
+                'description: "Node.js: conventions"',
+                'globs: *.ts, src/**/*.js',
+                'alwaysApply: false',
+                'tags:',
+                '  - backend',
+                "  - 'api'",
+                '---',
+                '# Node.js',
+                'Use async/await.'
+            ].join('\r\n'));
+
+            assert.strictEqual(parsed.hasFrontmatter, true);
+            assert.deepStrictEqual(parsed.errors, []);
+            assert.deepStrictEqual(parsed.attributes, {
+                description: 'Node.js: conventions',
+                globs: '*.ts, src/**/*.js',
+                alwaysApply: false,
+                tags: ['backend', 'api']
+            });
+            assert.strictEqual(parsed.attributeLines.globs, 3);
+            assert.strictEqual(parsed.body, '# Node.js\nUse async/await.');
+
+            const metadata = getRuleMetadata(parsed);
+            assert.deepStrictEqual(metadata.globs, ['*.ts', 'src/**/*.js']);
+            assert.strictEqual(getRuleType(metadata), 'auto');
+        });
+
+        it('should report malformed lines and treat files without frontmatter as plain bodies', () => {
+            const parsed = parseFrontmatter('---\nglobs: ["*.py", "*.pyi"]\nnot a pair\ndescription: "open\n---\nbody');
+
+            assert.deepStrictEqual(parsed.attributes.globs, ['*.py', '*.pyi']);
+            assert.deepStrictEqual(parsed.errors.map(error => error.line), [3, 4]);
+
+            const plain = parseFrontmatter('# Just markdown');
+            assert.strictEqual(plain.hasFrontmatter, false);
+            assert.strictEqual(plain.body, '# Just markdown');
+            assert.strictEqual(getRuleType(getRuleMetadata(plain)), 'manual');
+        });
+
+        it('should keep brace alternatives together when splitting globs', () => {
+            const unquoted = parseFrontmatter('---\nglobs: **/*.{ts,tsx}, docs/*.md\n---\n');
+            assert.deepStrictEqual(getRuleMetadata(unquoted).globs, ['**/*.{ts,tsx}', 'docs/*.md']);
+
+            const inline = parseFrontmatter('---\nglobs: [src/*.{js,jsx}, "*.json"]\n---\n');
+            assert.deepStrictEqual(getRuleMetadata(inline).globs, ['src/*.{js,jsx}', '*.json']);
+        });
+    });
+});
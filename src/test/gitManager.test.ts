@@ -0,0 +1,331 @@
+/**
+ * Unit tests for the GitManager class.
+ * Tests cloning and pinning against a local repository served over file://.
+ */
+import assert from 'assert';
+import { describe, it, before, after } from 'node:test';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { GitManager, SyncPass } from '../gitManager';
+import { RuleSource, RulesConfig } from '../rulesConfig';
+
+// Minimal logger implementing the methods used by GitManager
+const createTestLogger = () => ({
+    info: (_: string) => { },
+    warn: (_: string) => { },
+    debug: (_: string) => { },
+    error: (_: string) => { }
+} as any);
+
+function git(cwd: string, ...args: string[]): string {
+    return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd, encoding: 'utf-8' }).trim();
+}
+
+describe('GitManager', () => {
+    const tmpRoot = path.join(os.tmpdir(), `ai-rules-syncer-git-test-${Date.now()}`);
+    const originPath = path.join(tmpRoot, 'origin');
+    const commits: Record<string, string> = {};
+
+    const createConfig = (cacheName: string): RulesConfig => ({
+        repoUrl: '',
+        teamNames: [],
+        rulesFolderPath: path.join(tmpRoot, 'dest'),
+        cacheDirPath: path.join(tmpRoot, cacheName),
+        syncIntervalMinutes: 0,
+        branch: ''
+    });
+
+    const createSource = (ref: string): RuleSource => ({
+        repoUrl: `file://${originPath}`,
+        branch: '',
+        teamNames: [],
+        destination: '',
+        ref
+    });
+
+    before(async () => {
+        await fs.mkdir(path.join(originPath, 'general'), { recursive: true });
+        git(originPath, 'init', '--quiet');
+        for (const version of ['1.0.0', '2.1.0', '2.3.1', '3.0.0']) {
+            await fs.writeFile(path.join(originPath, 'general', 'tone.mdc'), version, 'utf-8');
+            git(originPath, 'add', '.');
+            git(originPath, 'commit', '--quiet', '-m', `Release ${version}`);
+            git(originPath, 'tag', `v${version}`);
+            commits[version] = git(originPath, 'rev-parse', 'HEAD');
+        }
+    });
+
+    after(async () => {
+        try { await fs.rm(tmpRoot, { recursive: true, force: true }); } catch { }
+    });
+
+    it('resolves a semver range to the highest matching tag', async () => {
+        const manager = new GitManager(createTestLogger());
+
+        const result = await manager.ensureRepository(createSource('^2.1'), createConfig('cache-range'));
+
+        assert.strictEqual(result.resolvedRef, 'v2.3.1');
+        assert.strictEqual(result.commit, commits['2.3.1']);
+        assert.strictEqual(await fs.readFile(path.join(result.repoPath, 'general', 'tone.mdc'), 'utf-8'), '2.3.1');
+    });
+
+    it('moves a cached clone between an exact tag and a commit SHA', async () => {
+        const manager = new GitManager(createTestLogger());
+        const config = createConfig('cache-moves');
+
+        const tagged = await manager.ensureRepository(createSource('v1.0.0'), config);
+        assert.strictEqual(tagged.resolvedRef, 'v1.0.0');
+        assert.strictEqual(tagged.commit, commits['1.0.0']);
+
+        const pinned = await manager.ensureRepository(createSource(commits['3.0.0']!), config);
+        assert.strictEqual(pinned.repoPath, tagged.repoPath);
+        assert.strictEqual(pinned.commit, commits['3.0.0']);
+    });
+
+    it('falls back to the cached clone and reports it when the remote is unreachable', async () => {
+        const manager = new GitManager(createTestLogger());
+        const config = createConfig('cache-offline');
+
+        const offlineOrigin = path.join(tmpRoot, 'origin-offline');
+        await fs.cp(originPath, offlineOrigin, { recursive: true });
+        const source = { ...createSource(''), repoUrl: `file://${offlineOrigin}` };
+
+        const online = await manager.ensureRepository(source, config);
+        assert.strictEqual(online.offline, false);
+
+        await fs.rename(offlineOrigin, `${offlineOrigin}-unreachable`);
+        const offline = await manager.ensureRepository(source, config);
+        assert.strictEqual(offline.offline, true);
+        assert.strictEqual(offline.commit, online.commit);
+    });
+
+    it('checks out the branch of each workspace folder sharing a clone', async () => {
+        const manager = new GitManager(createTestLogger());
+        const branchOrigin = path.join(tmpRoot, 'origin-branches');
+        await fs.mkdir(path.join(branchOrigin, 'general'), { recursive: true });
+        git(branchOrigin, 'init', '--quiet', '--initial-branch=main');
+        for (const branch of ['main', 'dev']) {
+            if (branch !== 'main') {
+                git(branchOrigin, 'checkout', '--quiet', '-b', branch);
+            }
+            await fs.writeFile(path.join(branchOrigin, 'general', 'tone.mdc'), branch, 'utf-8');
+            git(branchOrigin, 'add', '.');
+            git(branchOrigin, 'commit', '--quiet', '-m', `Rules for ${branch}`);
+        }
+
+        const sourceOf = (branch: string): RuleSource => ({ ...createSource(''), repoUrl: `file://${branchOrigin}`, branch });
+        const configOf = (workspace: string, branch: string): RulesConfig =>
+            ({ ...createConfig('cache-branches'), workspaceFolderPath: path.join(tmpRoot, workspace), branch });
+        const ensure = (workspace: string, branch: string) => manager.ensureRepository(sourceOf(branch), configOf(workspace, branch));
+        const tone = (repoPath: string) => fs.readFile(path.join(repoPath, 'general', 'tone.mdc'), 'utf-8');
+
+        const main = await ensure('workspace-main', 'main');
+        assert.strictEqual(await tone(main.repoPath), 'main');
+        const dev = await ensure('workspace-dev', 'dev');
+        assert.strictEqual(dev.repoPath, main.repoPath);
+        assert.strictEqual(dev.commit, git(branchOrigin, 'rev-parse', 'dev'));
+        assert.strictEqual(await tone(dev.repoPath), 'dev');
+
+        // The cached checkout only serves the folder whose branch or last synced commit it holds
+        assert.strictEqual(await manager.getCachedCommit(sourceOf('dev'), configOf('workspace-dev', 'dev')), dev.commit);
+        assert.strictEqual(await manager.getCachedCommit(sourceOf('main'), configOf('workspace-main', 'main'), main.commit), undefined);
+        assert.strictEqual(await manager.getCachedCommit({ ...sourceOf(''), ref: 'v1' }, configOf('workspace-pinned', ''), dev.commit), dev.commit);
+
+        assert.strictEqual((await ensure('workspace-main', 'main')).commit, main.commit);
+
+        // A missing branch is an error, not a reason to use whatever the clone holds
+        await assert.rejects(ensure('workspace-typo', 'deev'), /Branch 'deev' does not exist/);
+
+        // Offline, each folder still gets its own branch from the cache, and only if it was fetched before
+        await fs.rename(branchOrigin, `${branchOrigin}-unreachable`);
+        const offlineDev = await ensure('workspace-dev', 'dev');
+        assert.deepStrictEqual([offlineDev.offline, offlineDev.commit, await tone(offlineDev.repoPath)], [true, dev.commit, 'dev']);
+        await assert.rejects(ensure('workspace-feature', 'feature'), /branch 'feature' is not cached/);
+    });
+
+    it('moves clones to host-qualified slugs and repairs their remote', async () => {
+        // Serve https://example.invalid/Org/rules.git from the local origin
+        const repoUrl = 'https://example.invalid/Org/rules.git';
+        const env = { GIT_CONFIG_COUNT: '1', GIT_CONFIG_KEY_0: `url.file://${originPath}.insteadOf`, GIT_CONFIG_VALUE_0: repoUrl };
+        Object.assign(process.env, env);
+        try {
+            const config = createConfig('cache-migrate');
+            const legacyPath = path.join(config.cacheDirPath, 'Org-rules');
+            await fs.mkdir(config.cacheDirPath, { recursive: true });
+            git(config.cacheDirPath, 'clone', '--quiet', '--depth=1', `file://${originPath}`, legacyPath);
+            git(legacyPath, 'remote', 'set-url', 'origin', 'git@example.invalid:Org/rules.git');
+            // Repositories of other tools in the shared cache directory stay where they are
+            const foreignPath = path.join(config.cacheDirPath, 'other-tool');
+            git(config.cacheDirPath, 'clone', '--quiet', '--depth=1', `file://${originPath}`, foreignPath);
+            git(foreignPath, 'remote', 'set-url', 'origin', 'https://example.invalid/Other/tool.git');
+
+            const manager = new GitManager(createTestLogger());
+            const source = { ...createSource(''), repoUrl };
+            const { repoPath, commit } = await manager.ensureRepository(source, config);
+            assert.match(path.basename(repoPath), /^example\.invalid-Org-rules-[0-9a-f]{8}$/);
+            assert.strictEqual(commit, commits['3.0.0']);
+            assert.deepStrictEqual(await fs.readdir(config.cacheDirPath).then(names => names.filter(name => !name.endsWith('.lock')).sort()),
+                [path.basename(repoPath), 'other-tool'].sort());
+            assert.strictEqual(git(foreignPath, 'config', '--get', 'remote.origin.url'), 'https://example.invalid/Other/tool.git');
+            // The SSH spelling of the same repository is switched to the configured URL
+            assert.strictEqual(git(repoPath, 'config', '--get', 'remote.origin.url'), repoUrl);
+
+            // A clone of another repository is replaced
+            git(repoPath, 'remote', 'set-url', 'origin', 'https://example.invalid/Other/rules.git');
+            await fs.writeFile(path.join(repoPath, 'stale.txt'), 'stale');
+            await manager.ensureRepository(source, config);
+            assert.strictEqual(git(repoPath, 'config', '--get', 'remote.origin.url'), repoUrl);
+            assert.strictEqual(await fs.stat(path.join(repoPath, 'stale.txt')).then(() => true, () => false), false);
+        } finally {
+            for (const key of Object.keys(env)) {
+                delete process.env[key];
+            }
+        }
+    });
+
+    it('lists the commits between two synced revisions of a shallow clone', async () => {
+        const manager = new GitManager(createTestLogger());
+        const logOrigin = path.join(tmpRoot, 'origin-log');
+        await fs.mkdir(logOrigin, { recursive: true });
+        git(logOrigin, 'init', '--quiet');
+        const commit = async (subject: string) => {
+            await fs.writeFile(path.join(logOrigin, 'tone.mdc'), subject, 'utf-8');
+            git(logOrigin, 'add', '.');
+            git(logOrigin, 'commit', '--quiet', '-m', subject);
+        };
+        await commit('Initial rules');
+        const source = { ...createSource(''), repoUrl: `file://${logOrigin}` };
+        const config = createConfig('cache-log');
+
+        const before = await manager.ensureRepository(source, config);
+        await commit('Tighten tone');
+        await commit('Add Go rules');
+        const after = await manager.ensureRepository(source, config);
+
+        const log = await manager.getCommitLog(after.repoPath, before.commit, after.commit);
+        assert.deepStrictEqual(log.map(entry => entry.subject), ['Add Go rules', 'Tighten tone']);
+        assert.strictEqual(log[0]?.author, 'Test');
+        assert.strictEqual(log[0]?.sha, after.commit);
+    });
+
+    it('checks out only the team folders the workspaces sharing a partial clone need', async () => {
+        const manager = new GitManager(createTestLogger());
+        const sparseOrigin = path.join(tmpRoot, 'origin-sparse');
+        for (const file of ['general/tone.mdc', 'team/alpha/rules.mdc', 'team/beta/rules.mdc', 'team/gamma/rules.mdc', '.github/ci.yml']) {
+            await fs.mkdir(path.dirname(path.join(sparseOrigin, file)), { recursive: true });
+            await fs.writeFile(path.join(sparseOrigin, file), file, 'utf-8');
+        }
+        git(sparseOrigin, 'init', '--quiet');
+        git(sparseOrigin, 'config', 'uploadpack.allowFilter', 'true');
+        git(sparseOrigin, 'add', '.');
+        git(sparseOrigin, 'commit', '--quiet', '-m', 'Rules');
+
+        const workspace = async (name: string, teamNames: string[]) => {
+            const workspaceFolderPath = path.join(tmpRoot, name);
+            await fs.mkdir(workspaceFolderPath, { recursive: true });
+            return { ...createConfig('cache-sparse'), teamNames, workspaceFolderPath };
+        };
+        const ensure = (config: RulesConfig, pass?: SyncPass) =>
+            manager.ensureRepository({ ...createSource(''), repoUrl: `file://${sparseOrigin}`, teamNames: config.teamNames }, config, pass);
+        const checkedOut = async (repoPath: string) => ({
+            general: await fs.stat(path.join(repoPath, 'general', 'tone.mdc')).then(() => true, () => false),
+            teams: (await fs.readdir(path.join(repoPath, 'team')).catch(() => [])).sort(),
+            hidden: await fs.stat(path.join(repoPath, '.github')).then(() => true, () => false)
+        });
+
+        const first = await workspace('workspace-one', ['alpha']);
+        const { repoPath } = await ensure(first);
+        assert.strictEqual(git(repoPath, 'config', 'remote.origin.partialclonefilter'), 'blob:none');
+        assert.deepStrictEqual(await checkedOut(repoPath), { general: true, teams: ['alpha'], hidden: false });
+
+        // A second workspace sharing the clone widens the set; the first keeps its team
+        await ensure(await workspace('workspace-two', ['beta']));
+        assert.deepStrictEqual((await checkedOut(repoPath)).teams, ['alpha', 'beta']);
+
+        // Adding a team updates the set
+        await ensure({ ...first, teamNames: ['alpha', 'gamma'] });
+        assert.deepStrictEqual((await checkedOut(repoPath)).teams, ['alpha', 'beta', 'gamma']);
+
+        // A workspace without sparse checkout needs the whole repository
+        await ensure({ ...first, sparseCheckout: false });
+        assert.deepStrictEqual(await checkedOut(repoPath), { general: true, teams: ['alpha', 'beta', 'gamma'], hidden: true });
+
+        // A sync pass over several folders fetches the shared clone once but checks out the teams of each
+        const pass: SyncPass = new Map();
+        const { cacheDirPath } = createConfig('cache-sparse-pass');
+        const passed = await ensure({ ...await workspace('workspace-three', ['alpha']), cacheDirPath }, pass);
+        assert.strictEqual(await ensure({ ...await workspace('workspace-four', ['gamma']), cacheDirPath }, pass), passed);
+        assert.deepStrictEqual((await checkedOut(passed.repoPath)).teams, ['alpha', 'gamma']);
+    });
+
+    it('records cache use, re-clones corrupt clones and prunes unused ones', async () => {
+        const config = createConfig('cache-housekeeping');
+        const { repoPath, commit } = await new GitManager(createTestLogger()).ensureRepository(createSource(''), config);
+
+        const [cached] = await new GitManager(createTestLogger()).listCachedRepositories(config.cacheDirPath);
+        assert.strictEqual(cached?.repoPath, repoPath);
+        assert.strictEqual(cached?.repoUrl, `file://${originPath}`);
+        assert.ok(Date.now() - cached!.lastUsed.getTime() < 60_000);
+        assert.ok(cached!.size > 0);
+
+        // Corrupt every pack; a new session detects it and clones again
+        const packDir = path.join(repoPath, '.git', 'objects', 'pack');
+        for (const pack of (await fs.readdir(packDir)).filter(name => name.endsWith('.pack'))) {
+            await fs.writeFile(path.join(packDir, pack), 'corrupt');
+        }
+        const manager = new GitManager(createTestLogger());
+        assert.strictEqual((await manager.ensureRepository(createSource(''), config)).commit, commit);
+        assert.strictEqual(git(repoPath, 'fsck', '--connectivity-only'), '');
+
+        // Another tool's repository in the shared cache directory, unused for years
+        const foreignPath = path.join(config.cacheDirPath, 'other-tool');
+        git(config.cacheDirPath, 'clone', '--quiet', `file://${originPath}`, foreignPath);
+        const longAgo = new Date('2020-01-01T00:00:00Z');
+        for (const name of ['HEAD', 'FETCH_HEAD', 'config']) {
+            await fs.utimes(path.join(foreignPath, '.git', name), longAgo, longAgo).catch(() => { });
+        }
+
+        // Only clones that are unused for longer than the retention and not in use are pruned
+        const metadataPath = path.join(repoPath, '.git', 'ai-rules-cache.json');
+        const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'));
+        await fs.writeFile(metadataPath, JSON.stringify({ ...metadata, lastUsed: '2020-01-01T00:00:00Z' }));
+        assert.deepStrictEqual(await manager.pruneCache(config.cacheDirPath, 30, new Set([repoPath])), []);
+        assert.strictEqual((await manager.pruneCache(config.cacheDirPath, 30, new Set()))[0]?.repoPath, repoPath);
+        // The foreign repository is neither pruned nor listed, so Clear Cache does not remove it either
+        assert.deepStrictEqual(await manager.listCachedRepositories(config.cacheDirPath), []);
+        assert.strictEqual(git(foreignPath, 'rev-parse', 'HEAD'), commits['3.0.0']);
+    });
+
+    it('verifies SSH commit signatures against allowed key fingerprints', async () => {
+        const manager = new GitManager(createTestLogger());
+        const signedOrigin = path.join(tmpRoot, 'origin-signed');
+        const keyPath = path.join(tmpRoot, 'signing-key');
+        await fs.mkdir(signedOrigin, { recursive: true });
+        execFileSync('ssh-keygen', ['-q', '-t', 'ed25519', '-N', '', '-C', 'rules-bot', '-f', keyPath]);
+        const fingerprint = execFileSync('ssh-keygen', ['-lf', `${keyPath}.pub`], { encoding: 'utf-8' }).split(' ')[1]!;
+
+        git(signedOrigin, 'init', '--quiet');
+        await fs.writeFile(path.join(signedOrigin, 'tone.mdc'), 'signed', 'utf-8');
+        git(signedOrigin, 'add', '.');
+        git(signedOrigin, '-c', 'gpg.format=ssh', '-c', `user.signingkey=${keyPath}`, 'commit', '--quiet', '-S', '-m', 'Signed rules');
+        await fs.writeFile(path.join(signedOrigin, 'tone.mdc'), 'unsigned', 'utf-8');
+        git(signedOrigin, 'commit', '--quiet', '-am', 'Unsigned rules');
+        const signedCommit = git(signedOrigin, 'rev-parse', 'HEAD~1');
+        const unsignedCommit = git(signedOrigin, 'rev-parse', 'HEAD');
+
+        assert.deepStrictEqual(await manager.verifyCommit(signedOrigin, signedCommit, [fingerprint]), { verified: true, signer: fingerprint });
+        assert.match((await manager.verifyCommit(signedOrigin, signedCommit, ['A'.repeat(40)])).reason!, /not an allowed signer/);
+        assert.strictEqual((await manager.verifyCommit(signedOrigin, unsignedCommit, [fingerprint])).reason, 'the commit is not signed');
+    });
+
+    it('rejects a range that no tag satisfies', async () => {
+        const manager = new GitManager(createTestLogger());
+
+        await assert.rejects(
+            manager.ensureRepository(createSource('^9'), createConfig('cache-missing')),
+            /No tag satisfies version range '\^9'/
+        );
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for glob matching.
+ * Tests Cursor-style matching of slash-less globs against file names and
+ * translation of wildcards, alternatives and character classes.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { matchesAnyPath, matchesGlob, matchesPathOrParent, validateGlob } from '../glob';
+
+describe('glob', () => {
+    describe('matchesGlob', () => {
+        it('should match slash-less globs against the file name in any folder', () => {
+            assert.strictEqual(matchesGlob('*.go', 'cmd/server/main.go'), true);
+            assert.strictEqual(matchesGlob('Dockerfile', 'deploy/Dockerfile'), true);
+            assert.strictEqual(matchesGlob('*.{ts,tsx}', 'src/App.tsx'), true);
+            assert.strictEqual(matchesGlob('*.ts', 'src/app.js'), false);
+        });
+
+        it('should anchor globs containing a slash at the workspace root', () => {
+            assert.strictEqual(matchesGlob('**/*.py', 'setup.py'), true);
+            assert.strictEqual(matchesGlob('src/**/*.js', 'src/a/b/c.js'), true);
+            assert.strictEqual(matchesGlob('./src/*.js', 'src/index.js'), true);
+            assert.strictEqual(matchesGlob('src/*.js', 'lib/src/index.js'), false);
+            assert.strictEqual(matchesGlob('docker-compose.y[a]ml', 'docker-compose.yaml'), true);
+            assert.strictEqual(matchesGlob('infra/?.tf', 'infra/ab.tf'), false);
+        });
+    });
+
+    describe('matchesAnyPath', () => {
+        it('should report whether any path matches any glob', () => {
+            const files = ['go.mod', 'cmd/main.go'];
+
+            assert.strictEqual(matchesAnyPath(['package.json', '*.go'], files), true);
+            assert.strictEqual(matchesAnyPath(['package.json', '*.ts'], files), false);
+        });
+    });
+
+    describe('matchesPathOrParent', () => {
+        it('should match files below a matching folder', () => {
+            assert.strictEqual(matchesPathOrParent('role', 'role/architect.mdc'), true);
+            assert.strictEqual(matchesPathOrParent('role/**', 'role/security/expert.mdc'), true);
+            assert.strictEqual(matchesPathOrParent('role', 'general/role.mdc'), false);
+        });
+    });
+
+    describe('validateGlob', () => {
+        it('should accept relative globs and describe malformed ones', () => {
+            assert.strictEqual(validateGlob('general/**/*.{md,mdc}'), undefined);
+            assert.strictEqual(validateGlob('language/[!x]*.mdc'), undefined);
+            assert.strictEqual(validateGlob('/etc/**'), 'pattern must be a relative path with forward slashes');
+            assert.strictEqual(validateGlob('role/[abc'), "unclosed '['");
+            assert.strictEqual(validateGlob('role}'), "unmatched '}'");
+            assert.strictEqual(validateGlob('  '), 'pattern is empty');
+        });
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the output adapters.
+ * Tests translation of rule frontmatter into each target format and merging
+ * of the managed block into user-owned instruction files.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { BLOCK_BEGIN, BLOCK_END, RuleDocument, mergeManagedBlock, renderOutputs } from '../outputAdapters';
+
+const rules: RuleDocument[] = [
+    { relPath: 'general/tone.mdc', metadata: { description: '', globs: [], alwaysApply: true }, body: 'Be concise.' },
+    { relPath: 'language/nodejs.mdc', metadata: { description: 'Node.js conventions', globs: ['*.ts', 'src/**/*.js'], alwaysApply: false }, body: 'Use async/await.' },
+    { relPath: 'role/architect.mdc', metadata: { description: 'Architecture reviews', globs: [], alwaysApply: false }, body: 'Think in boundaries.' },
+    { relPath: 'role/pirate.mdc', metadata: { description: '', globs: [], alwaysApply: false }, body: 'Arr.' }
+];
+
+describe('outputAdapters', () => {
+    describe('renderOutputs', () => {
+        it('should split rules into Copilot instructions with applyTo', () => {
+            const outputs = renderOutputs(rules, ['copilot'], '.cursor/rules/remote');
+            const byPath = new Map(outputs.map(output => [output.path, output]));
+
+            assert.deepStrictEqual([...byPath.keys()], [
+                '.github/copilot-instructions.md',
+                '.github/instructions/language-nodejs.instructions.md',
+                '.github/instructions/role-architect.instructions.md',
+                '.github/instructions/role-pirate.instructions.md'
+            ]);
+            assert.strictEqual(byPath.get('.github/copilot-instructions.md')!.kind, 'block');
+            assert.match(byPath.get('.github/copilot-instructions.md')!.content, /## general\/tone\n\nBe concise\./);
+
+            const nodejs = byPath.get('.github/instructions/language-nodejs.instructions.md')!.content;
+            assert.match(nodejs, /^---\napplyTo: "\*\*\/\*\.ts,src\/\*\*\/\*\.js"\ndescription: "Node\.js conventions"\n---\n/);
+            assert.match(nodejs, /Use async\/await\.\n$/);
+            assert.match(byPath.get('.github/instructions/role-architect.instructions.md')!.content, /^---\ndescription: "Architecture reviews"\n---\n/);
+            assert.doesNotMatch(byPath.get('.github/instructions/role-pirate.instructions.md')!.content, /^---/);
+        });
+
+        it('should give Copilot instruction files whose flattened names collide distinct names', () => {
+            const colliding: RuleDocument[] = [
+                { relPath: 'a/b.mdc', metadata: { description: 'Nested', globs: [], alwaysApply: false }, body: 'Nested rule.' },
+                { relPath: 'a-b.mdc', metadata: { description: 'Flat', globs: [], alwaysApply: false }, body: 'Flat rule.' }
+            ];
+            const files = renderOutputs(colliding, ['copilot'], '.cursor/rules/remote').filter(output => output.kind === 'file');
+
+            assert.strictEqual(new Set(files.map(output => output.path)).size, 2);
+            for (const output of files) {
+                assert.match(output.path, /^\.github\/instructions\/a-b-[0-9a-f]{8}\.instructions\.md$/);
+            }
+            assert.ok(files.some(output => output.content.includes('Nested rule.')));
+            assert.ok(files.some(output => output.content.includes('Flat rule.')));
+        });
+
+        it('should inline always and glob rules and reference the rest for single-file targets', () => {
+            const outputs = renderOutputs(rules, ['claude', 'windsurf', 'agents'], '.cursor/rules/remote');
+
+            assert.deepStrictEqual(outputs.map(output => output.path), ['CLAUDE.md', '.windsurfrules', 'AGENTS.md']);
+            const content = outputs[0]!.content;
+            assert.match(content, /## general\/tone\n\nBe concise\./);
+            assert.match(content, /## language\/nodejs\n\nApplies to files matching: `\*\.ts`, `src\/\*\*\/\*\.js`\n\nUse async\/await\./);
+            assert.match(content, /- `\.cursor\/rules\/remote\/role\/architect\.mdc`: Architecture reviews/);
+            assert.match(content, /- `\.cursor\/rules\/remote\/role\/pirate\.mdc` \(only when explicitly requested\)/);
+            assert.doesNotMatch(content, /Think in boundaries/);
+        });
+    });
+
+    describe('mergeManagedBlock', () => {
+        it('should append, replace and remove the managed block while keeping user content', () => {
+            const appended = mergeManagedBlock('# Team notes\n', 'v1');
+            assert.strictEqual(appended, `# Team notes\n\n${BLOCK_BEGIN}\nv1\n${BLOCK_END}\n`);
+
+            const replaced = mergeManagedBlock(`${appended}\nMore notes\n`, 'v2');
+            assert.strictEqual(replaced, `# Team notes\n\n${BLOCK_BEGIN}\nv2\n${BLOCK_END}\n\nMore notes\n`);
+
+            assert.strictEqual(mergeManagedBlock(replaced, undefined), '# Team notes\n\nMore notes\n');
+            assert.strictEqual(mergeManagedBlock(undefined, 'v1'), `${BLOCK_BEGIN}\nv1\n${BLOCK_END}\n`);
+        });
+    });
+});
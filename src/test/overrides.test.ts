@@ -0,0 +1,31 @@
+/**
+ * Unit tests for parsing project-local rule overrides.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseOverrides } from '../overrides';
+
+describe('overrides', () => {
+    describe('parseOverrides', () => {
+        it('normalises paths and fills in missing sections', () => {
+            assert.deepStrictEqual(parseOverrides({
+                disable: [' general/legacy.mdc '],
+                replace: { 'general/tone.mdc': './docs/tone.mdc' }
+            }), {
+                disable: ['general/legacy.mdc'],
+                replace: { 'general/tone.mdc': 'docs/tone.mdc' },
+                append: {}
+            });
+            assert.deepStrictEqual(parseOverrides({}), { disable: [], replace: {}, append: {} });
+        });
+
+        it('rejects malformed overrides', () => {
+            assert.throws(() => parseOverrides([]), /must contain a JSON object/);
+            assert.throws(() => parseOverrides({ disable: 'general' }), /disable must be an array of globs/);
+            assert.throws(() => parseOverrides({ disable: ['general/{a,b'] }), /disable: invalid glob 'general\/\{a,b': unclosed '\{'/);
+            assert.throws(() => parseOverrides({ replace: { 'general/tone.mdc': '../../etc/passwd' } }), /replace\.general\/tone\.mdc must be a relative path inside the workspace folder/);
+            assert.throws(() => parseOverrides({ append: { '/general/style.mdc': 'text' } }), /append: '\/general\/style\.mdc' must be a path relative to the rules folder/);
+            assert.throws(() => parseOverrides({ append: { 'general/style.mdc': ['text'] } }), /append\.general\/style\.mdc must be a string/);
+        });
+    });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for the repository manifest.
+ * Tests schema validation, destination defaults and the minimum extension
+ * version check.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { checkExtensionVersion, getExtensionVersion, parseRepoManifest } from '../repoManifest';
+
+describe('repoManifest', () => {
+    describe('parseRepoManifest', () => {
+        it('should default destinations to the category path', () => {
+            const manifest = parseRepoManifest({
+                minExtensionVersion: '0.1.0',
+                categories: [
+                    { path: 'general/', type: 'always' },
+                    { path: 'stacks', type: 'language', destination: 'language' },
+                    { path: 'AGENT_RULES.mdc', type: 'always', destination: '' }
+                ]
+            });
+
+            assert.deepStrictEqual(manifest.categories, [
+                { path: 'general', type: 'always', destination: 'general' },
+                { path: 'stacks', type: 'language', destination: 'language' },
+                { path: 'AGENT_RULES.mdc', type: 'always', destination: '' }
+            ]);
+        });
+
+        it('should reject unknown types, unsafe paths and invalid versions', () => {
+            assert.throws(() => parseRepoManifest({ categories: [{ path: 'general', type: 'sometimes' }] }), /categories\[0\]\.type must be one of/);
+            assert.throws(() => parseRepoManifest({ categories: [{ path: '../outside', type: 'always' }] }), /categories\[0\]\.path must be a relative path/);
+            assert.throws(() => parseRepoManifest({ categories: [{ path: '.git', type: 'always' }] }), /categories\[0\]\.path/);
+            assert.throws(() => parseRepoManifest({ categories: [{ path: 'role', type: 'opt-in', destination: '/etc' }] }), /destination must be a relative path/);
+            assert.throws(() => parseRepoManifest({ minExtensionVersion: 'next', categories: [] }), /minExtensionVersion must be a semantic version/);
+            assert.throws(() => parseRepoManifest([]), /must contain a JSON object/);
+        });
+    });
+
+    describe('checkExtensionVersion', () => {
+        it('should require the installed version to be at least the minimum', () => {
+            const manifest = parseRepoManifest({ minExtensionVersion: '1.2.0', categories: [] });
+
+            assert.doesNotThrow(() => checkExtensionVersion(manifest, 'https://example/repo.git', '1.2.0'));
+            assert.throws(() => checkExtensionVersion(manifest, 'https://example/repo.git', '1.1.9'),
+                /requires AI Rules Syncer 1\.2\.0 or newer \(installed: 1\.1\.9\)/);
+            assert.match(getExtensionVersion(), /^\d+\.\d+\.\d+/);
+        });
+    });
+});
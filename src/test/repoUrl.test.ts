@@ -0,0 +1,75 @@
+/**
+ * Unit tests for repository URL parsing and the host allow-list.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { isRepositoryAllowed, isSameRepository, legacyRepoSlug, parseRepoUrl, repoSlug } from '../repoUrl';
+
+describe('repoUrl', () => {
+    describe('parseRepoUrl', () => {
+        it('parses HTTPS, SSH and scp-like URLs', () => {
+            assert.deepStrictEqual(parseRepoUrl('https://GitHub.com/YourOrg/rules.git'), { host: 'github.com', path: 'YourOrg/rules' });
+            assert.deepStrictEqual(parseRepoUrl('ssh://git@git.example.com:2222/group/sub/rules.git'), { host: 'git.example.com', path: 'group/sub/rules' });
+            assert.deepStrictEqual(parseRepoUrl('git@github.com:YourOrg/rules.git'), { host: 'github.com', path: 'YourOrg/rules' });
+        });
+
+        it('rejects URLs without a path or with relative segments', () => {
+            assert.strictEqual(parseRepoUrl('https://github.com/'), undefined);
+            assert.strictEqual(parseRepoUrl('git@github.com:YourOrg/../Other/rules.git'), undefined);
+            assert.strictEqual(parseRepoUrl('not a url'), undefined);
+        });
+    });
+
+    describe('repoSlug', () => {
+        it('includes the host and a hash, shared by HTTPS and SSH URLs of a repository', () => {
+            const slug = repoSlug('https://github.com/Org/rules.git');
+            assert.match(slug, /^github\.com-Org-rules-[0-9a-f]{8}$/);
+            assert.strictEqual(repoSlug('git@github.com:Org/rules.git'), slug);
+            assert.strictEqual(repoSlug('ssh://git@github.com/Org/rules'), slug);
+        });
+
+        it('keeps repositories with the same org and name on different hosts apart', () => {
+            assert.notStrictEqual(repoSlug('https://github.com/Org/rules.git'), repoSlug('https://gitlab.internal/Org/rules.git'));
+            assert.notStrictEqual(repoSlug('https://github.com/a-b/c.git'), repoSlug('https://github.com/a/b-c.git'));
+        });
+
+        it('hashes URLs that cannot be parsed', () => {
+            assert.match(repoSlug('file:///srv/rules'), /^repo-[0-9a-f]{8}$/);
+            assert.notStrictEqual(repoSlug('file:///srv/rules'), repoSlug('file:///srv/other'));
+        });
+    });
+
+    describe('legacyRepoSlug', () => {
+        it('names clones by org and repository like earlier versions', () => {
+            assert.strictEqual(legacyRepoSlug('https://github.com/Org/rules.git'), 'Org-rules');
+            assert.strictEqual(legacyRepoSlug('git@github.com:Org/rules.git'), 'Org-rules');
+        });
+    });
+
+    describe('isSameRepository', () => {
+        it('compares host and path across URL forms', () => {
+            assert.strictEqual(isSameRepository('https://GitHub.com/Org/rules', 'git@github.com:Org/rules.git'), true);
+            assert.strictEqual(isSameRepository('https://github.com/Org/rules.git', 'https://gitlab.internal/Org/rules.git'), false);
+            assert.strictEqual(isSameRepository('file:///srv/rules', 'file:///srv/rules'), true);
+        });
+    });
+
+    describe('isRepositoryAllowed', () => {
+        const allowed = ['github.com/YourOrg', '*.corp.example', 'gitlab.example.com/platform/ai'];
+
+        it('allows everything when the list is empty', () => {
+            assert.strictEqual(isRepositoryAllowed('https://evil.example/x/rules.git', []), true);
+        });
+
+        it('matches hosts, subdomains and path prefixes segment by segment', () => {
+            assert.strictEqual(isRepositoryAllowed('git@github.com:yourorg/rules.git', allowed), true);
+            assert.strictEqual(isRepositoryAllowed('https://git.corp.example/any/rules.git', allowed), true);
+            assert.strictEqual(isRepositoryAllowed('https://gitlab.example.com/platform/ai/rules.git', allowed), true);
+
+            assert.strictEqual(isRepositoryAllowed('https://github.com/YourOrgEvil/rules.git', allowed), false);
+            assert.strictEqual(isRepositoryAllowed('https://corp.example.evil.com/x/rules.git', allowed), false);
+            assert.strictEqual(isRepositoryAllowed('https://gitlab.example.com/platform/rules.git', allowed), false);
+            assert.strictEqual(isRepositoryAllowed('https://github.com@evil.example/YourOrg/rules.git', allowed), false);
+        });
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for linting rule files.
+ */
+import assert from 'assert';
+import { describe, it, after } from 'node:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LintedFile, lintRules, lintRulesFolder } from '../ruleLinter';
+
+const file = (relPath: string, content: string): LintedFile => ({ relPath, content: Buffer.from(content, 'utf-8') });
+const codes = (files: LintedFile[], options = {}) => lintRules(files, options).map(issue => `${issue.relPath}:${issue.line} ${issue.code}`);
+
+describe('ruleLinter', () => {
+    describe('lintRules', () => {
+        it('accepts well-formed rules', () => {
+            assert.deepStrictEqual(codes([
+                file('general/style.mdc', '---\ndescription: Style guide\nglobs: *.ts, src/**\nalwaysApply: false\n---\nSee [testing](../testing/unit.mdc).'),
+                file('testing/unit.mdc', '---\nalwaysApply: true\n---\nWrite tests.'),
+                file('README.md', '# Rules\n[Style](general/style.mdc), [site](https://example.com/x.md)')
+            ]), []);
+        });
+
+        it('checks the frontmatter syntax and schema', () => {
+            assert.deepStrictEqual(codes([
+                file('broken.mdc', '---\ndescription: "unterminated\nglobs: *.{ts,js\n'),
+                file('schema.mdc', '---\ndescription:\n  - a list\nglobs: src/**/*.{ts\nalwaysApply: "yes"\nauthor: me\n---\n'),
+                file('agent.mdc', '---\ndescription:\nglobs:\nalwaysApply: false\n---\nOnly when mentioned.'),
+                file('always.mdc', '---\nalwaysApply: true\nglobs: *.ts\n---\n')
+            ]), [
+                'agent.mdc:2 missing-description',
+                'always.mdc:3 ignored-globs',
+                'broken.mdc:1 frontmatter-syntax',
+                'schema.mdc:2 invalid-attribute',
+                'schema.mdc:4 invalid-glob',
+                'schema.mdc:5 invalid-attribute',
+                'schema.mdc:6 unknown-attribute'
+            ]);
+        });
+
+        it('reports duplicate rule names, oversized rules and dead links', () => {
+            const issues = lintRules([
+                file('general/testing.mdc', 'See [unit tests](./unit.mdc) and [style](mdc:.cursor/rules/remote/general/style.mdc).\n```md\n[example](missing.mdc)\n```'),
+                file('team/blue/testing.mdc', 'x'.repeat(2048)),
+                file('general/style.mdc', 'style')
+            ], { maxRuleSizeKb: 1, rulesFolder: '.cursor/rules/remote' });
+            assert.deepStrictEqual(issues.map(issue => [issue.relPath, issue.code, issue.message]), [
+                ['general/testing.mdc', 'duplicate-name', 'Rule name "testing" is also used by team/blue/testing.mdc'],
+                ['general/testing.mdc', 'dead-link', 'Link to missing rule general/unit.mdc'],
+                ['team/blue/testing.mdc', 'oversized', "Rule is 2 KB, more than the 1 KB limit; large rules crowd out the assistant's context"],
+                ['team/blue/testing.mdc', 'duplicate-name', 'Rule name "testing" is also used by general/testing.mdc']
+            ]);
+            const deadLink = issues.find(issue => issue.code === 'dead-link')!;
+            assert.deepStrictEqual([deadLink.line, deadLink.column, deadLink.length], [1, 5, 24]);
+        });
+    });
+
+    describe('lintRulesFolder', () => {
+        const root = path.join(os.tmpdir(), `ai-rules-lint-test-${Date.now()}`);
+        after(async () => {
+            await fs.rm(root, { recursive: true, force: true });
+        });
+
+        it('lints a repository checkout, skipping hidden folders', async () => {
+            await fs.mkdir(path.join(root, 'general'), { recursive: true });
+            await fs.mkdir(path.join(root, '.github'), { recursive: true });
+            await fs.writeFile(path.join(root, 'general', 'style.mdc'), '---\nglobs: [src/{a,b\n---\n');
+            await fs.writeFile(path.join(root, '.github', 'broken.mdc'), '---\n');
+            await fs.writeFile(path.join(root, 'general', 'notes.txt'), '[missing](gone.mdc)');
+
+            assert.deepStrictEqual((await lintRulesFolder(root)).map(issue => `${issue.relPath}:${issue.line} ${issue.code}`), [
+                'general/style.mdc:2 frontmatter-syntax'
+            ]);
+        });
+    });
+});
@@ -0,0 +1,59 @@
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import * as path from 'path';
+import { SettingsReader, readRulesConfig } from '../rulesConfig';
+
+const settingsOf = (values: Record<string, unknown>): SettingsReader => ({
+    get: <T>(key: string, defaultValue: T): T => (values[key] ?? defaultValue) as T
+});
+
+describe('readRulesConfig', () => {
+    it('applies the defaults and normalises names', () => {
+        const config = readRulesConfig(settingsOf({
+            repoUrl: 'https://github.com/org/rules.git',
+            teamNames: ' web, api ,',
+            cacheDirPath: '/cache',
+            outputTargets: ['claude', 'claude', 'unknown'],
+            templateVariables: { ' team ': 'web', count: 3, nested: { no: true } }
+        }), '/workspaces/app');
+
+        assert.deepStrictEqual(config.teamNames, ['web', 'api']);
+        assert.strictEqual(config.rulesFolderPath, path.join('/workspaces/app', '.cursor/rules/remote'));
+        assert.deepStrictEqual(config.outputTargets, ['claude']);
+        assert.deepStrictEqual(config.optionalCategories, ['role']);
+        assert.deepStrictEqual(config.templateVariables, { team: 'web', count: '3' });
+        assert.strictEqual(config.localEdits, 'prompt');
+        assert.strictEqual(config.contentScanning, 'warn');
+        assert.strictEqual(config.ruleLinting, true);
+        assert.strictEqual(config.sources?.length, 1);
+    });
+
+    it('lets sources inherit teams and filters and reads repositories from the repository settings', () => {
+        const settings = settingsOf({
+            repoUrl: 'https://github.com/org/workspace-rules.git',
+            teamNames: ['web'],
+            exclude: ['general/legacy.mdc'],
+            sources: [{ repoUrl: 'https://github.com/org/workspace-extra.git' }]
+        });
+        const repositories = settingsOf({
+            repoUrl: 'https://github.com/org/rules.git',
+            sources: [
+                { repoUrl: ' https://github.com/org/extra.git ', destination: 'extra' },
+                { repoUrl: 'https://github.com/org/security.git', teamNames: 'sec', exclude: [] }
+            ]
+        });
+
+        const config = readRulesConfig(settings, '/workspaces/app', repositories);
+
+        assert.deepStrictEqual(config.sources?.map(source => [source.repoUrl, source.teamNames, source.exclude, source.destination]), [
+            ['https://github.com/org/rules.git', ['web'], ['general/legacy.mdc'], ''],
+            ['https://github.com/org/extra.git', ['web'], ['general/legacy.mdc'], 'extra'],
+            ['https://github.com/org/security.git', ['sec'], [], '']
+        ]);
+    });
+
+    it('requires a workspace folder for a relative rules folder', () => {
+        assert.throws(() => readRulesConfig(settingsOf({})), /No workspace folder found/);
+        assert.strictEqual(readRulesConfig(settingsOf({ rulesFolderPath: '/rules' })).rulesFolderPath, '/rules');
+    });
+});
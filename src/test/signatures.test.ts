@@ -0,0 +1,47 @@
+/**
+ * Unit tests for commit signature evaluation and allowed signer validation.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { evaluateSignature, validateAllowedSigner } from '../signatures';
+
+const GPG_FINGERPRINT = '3AA5C34371567BD2F1E5D4F1B2C6E4A8D9F0A1B2';
+const SSH_FINGERPRINT = 'SHA256:e6Ur/BOb8YSjqu12cOoUOCtmNHN82FWTbPP/0JqKQDk';
+
+const output = (...fields: string[]) => fields.join('\x1f') + '\n';
+
+describe('signatures', () => {
+    describe('evaluateSignature', () => {
+        it('accepts good signatures by an allowed GPG or SSH key', () => {
+            assert.deepStrictEqual(evaluateSignature(output('G', GPG_FINGERPRINT, GPG_FINGERPRINT, 'Rules Bot'), [GPG_FINGERPRINT]),
+                { verified: true, signer: GPG_FINGERPRINT });
+            // Long key ID of the primary key, written with spaces and in lower case
+            assert.strictEqual(evaluateSignature(output('U', 'A'.repeat(40), GPG_FINGERPRINT, ''), ['b2c6 e4a8 d9f0 a1b2']).verified, true);
+            // SSH signatures checked against an empty allowed-signers file report 'U'
+            assert.strictEqual(evaluateSignature(output('U', SSH_FINGERPRINT, '', ''), [SSH_FINGERPRINT]).verified, true);
+        });
+
+        it('rejects unsigned, bad and foreign signatures with a reason', () => {
+            assert.deepStrictEqual(evaluateSignature(output('N', '', '', ''), [GPG_FINGERPRINT]),
+                { verified: false, reason: 'the commit is not signed' });
+            assert.strictEqual(evaluateSignature(output('B', GPG_FINGERPRINT, '', ''), [GPG_FINGERPRINT]).reason, 'the signature is bad');
+            assert.match(evaluateSignature(output('E', '', '', ''), [GPG_FINGERPRINT]).reason!, /GPG keyring/);
+
+            const foreign = evaluateSignature(output('G', 'B'.repeat(40), 'B'.repeat(40), 'Mallory'), [GPG_FINGERPRINT, SSH_FINGERPRINT]);
+            assert.strictEqual(foreign.verified, false);
+            assert.match(foreign.reason!, /BBBB+ \(Mallory\), which is not an allowed signer/);
+            // SSH fingerprints are matched exactly, never as a suffix
+            assert.strictEqual(evaluateSignature(output('U', SSH_FINGERPRINT, '', ''), [SSH_FINGERPRINT.slice(0, -1).toLowerCase()]).verified, false);
+        });
+    });
+
+    describe('validateAllowedSigner', () => {
+        it('accepts fingerprints and long key IDs only', () => {
+            assert.strictEqual(validateAllowedSigner(GPG_FINGERPRINT), undefined);
+            assert.strictEqual(validateAllowedSigner('0x' + GPG_FINGERPRINT.slice(-16).toLowerCase()), undefined);
+            assert.strictEqual(validateAllowedSigner(SSH_FINGERPRINT), undefined);
+            assert.ok(validateAllowedSigner('D9F0A1B2'));
+            assert.ok(validateAllowedSigner('rules-bot@example.com'));
+        });
+    });
+});
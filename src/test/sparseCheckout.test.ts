@@ -0,0 +1,48 @@
+/**
+ * Unit tests for the sparse-checkout set of shared clones.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { SparseRegistry, computeSparsePaths, pruneConsumers } from '../sparseCheckout';
+import { RepoCategory } from '../repoManifest';
+
+const categories: RepoCategory[] = [
+    { path: 'general', type: 'always', destination: 'general' },
+    { path: 'role', type: 'opt-in', destination: 'role' },
+    { path: 'teams', type: 'team', destination: 'teams' },
+    { path: 'language', type: 'language', destination: 'language' }
+];
+
+describe('sparseCheckout', () => {
+    describe('computeSparsePaths', () => {
+        it('checks out every category in full except the teams no consumer selected', () => {
+            const consumers = [
+                { folder: '/one', teamNames: ['blue'], lastUsed: '' },
+                { folder: '/two', teamNames: ['red', 'blue'], lastUsed: '' }
+            ];
+            assert.deepStrictEqual(computeSparsePaths(categories, consumers), ['general', 'language', 'role', 'teams/blue', 'teams/red']);
+            assert.deepStrictEqual(computeSparsePaths(categories, [{ folder: '/one', teamNames: [], lastUsed: '' }]), ['general', 'language', 'role']);
+        });
+
+        it('needs the whole repository when a consumer does', () => {
+            assert.strictEqual(computeSparsePaths(categories, [{ folder: '/one', teamNames: ['blue'], lastUsed: '' }, { folder: '/two', lastUsed: '' }]), undefined);
+        });
+    });
+
+    describe('pruneConsumers', () => {
+        it('drops consumers that are stale or whose folder is gone', async () => {
+            const now = new Date('2026-06-30T00:00:00Z');
+            const registry: SparseRegistry = {
+                version: 1,
+                consumers: {
+                    'recent#': { folder: '/recent', teamNames: [], lastUsed: '2026-06-20T00:00:00Z' },
+                    'stale#': { folder: '/stale', teamNames: [], lastUsed: '2026-05-01T00:00:00Z' },
+                    'removed#': { folder: '/removed', teamNames: [], lastUsed: '2026-06-29T00:00:00Z' },
+                    'invalid#': { folder: '/invalid', teamNames: [], lastUsed: 'yesterday' }
+                }
+            };
+            await pruneConsumers(registry, async folder => folder !== '/removed', now);
+            assert.deepStrictEqual(Object.keys(registry.consumers), ['recent#']);
+        });
+    });
+});
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for the sync planner.
+ * Tests classification of files into added, modified, removed and
+ * unchanged operations based on content hashes.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { hashContent, hasChanges, planSync } from '../syncPlanner';
+
+describe('syncPlanner', () => {
+    describe('planSync', () => {
+        it('should classify files by comparing content hashes', () => {
+            const desired = new Map([
+                ['general/tone.mdc', hashContent('tone v2')],
+                ['language/go.mdc', hashContent('go')],
+                ['role/architect.mdc', hashContent('architect')]
+            ]);
+            const existing = new Map([
+                ['general/tone.mdc', hashContent('tone v1')],
+                ['role/architect.mdc', hashContent('architect')],
+                ['language/nodejs.mdc', hashContent('nodejs')]
+            ]);
+
+            const plan = planSync(desired, existing);
+
+            assert.deepStrictEqual(plan.added, ['language/go.mdc']);
+            assert.deepStrictEqual(plan.modified, ['general/tone.mdc']);
+            assert.deepStrictEqual(plan.removed, ['language/nodejs.mdc']);
+            assert.deepStrictEqual(plan.unchanged, ['role/architect.mdc']);
+            assert.strictEqual(hasChanges(plan), true);
+        });
+
+        it('should report no changes for identical trees', () => {
+            const tree = new Map([['general/tone.mdc', hashContent('tone')]]);
+
+            const plan = planSync(tree, new Map(tree));
+
+            assert.strictEqual(hasChanges(plan), false);
+            assert.deepStrictEqual(plan.unchanged, ['general/tone.mdc']);
+        });
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for rendering template variables in rule files.
+ */
+import assert from 'assert';
+import { describe, it } from 'node:test';
+import { getPackageVariables, renderTemplate, validateVariableName } from '../templating';
+
+describe('templating', () => {
+    describe('renderTemplate', () => {
+        it('replaces known variables and leaves other braces alone', () => {
+            const variables = { 'vars.serviceName': 'billing', 'package.engines.node': '>=20' };
+            const rendered = renderTemplate('# {{ vars.serviceName }}\nNode {{package.engines.node}}.\n```vue\n<p>{{ message }}</p>\n```\n', variables);
+            assert.deepStrictEqual(rendered, {
+                content: '# billing\nNode >=20.\n```vue\n<p>{{ message }}</p>\n```\n',
+                unresolved: []
+            });
+        });
+
+        it('keeps unresolved variables and reports their position in the rendered text', () => {
+            const rendered = renderTemplate('Service {{ vars.serviceName }}\nTickets: {{ vars.ticketPrefix }}-123', { 'vars.serviceName': 'a-much-longer-name' });
+            assert.strictEqual(rendered.content, 'Service a-much-longer-name\nTickets: {{ vars.ticketPrefix }}-123');
+            assert.deepStrictEqual(rendered.unresolved, [{ name: 'vars.ticketPrefix', line: 2, column: 10, length: 23 }]);
+        });
+    });
+
+    describe('getPackageVariables', () => {
+        it('flattens scalar fields', () => {
+            assert.deepStrictEqual(getPackageVariables({
+                name: 'billing-service',
+                private: true,
+                engines: { node: '>=20' },
+                keywords: ['billing'],
+                dependencies: { '@nestjs/core': '^10.0.0' }
+            }), {
+                'package.name': 'billing-service',
+                'package.private': 'true',
+                'package.engines.node': '>=20',
+                'package.dependencies.@nestjs/core': '^10.0.0'
+            });
+            assert.deepStrictEqual(getPackageVariables('not an object'), {});
+        });
+    });
+
+    describe('validateVariableName', () => {
+        it('accepts dotted names', () => {
+            assert.strictEqual(validateVariableName('team.ticketPrefix'), undefined);
+            assert.match(validateVariableName('ticket prefix') ?? '', /may only contain/);
+            assert.match(validateVariableName('trailing.') ?? '', /may only contain/);
+        });
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Workspace scanning for language-aware rule selection.
+ * Lists the files of a workspace folder so language rules can be matched
+ * against what the project actually contains (`*.go`, `package.json`,
+ * `Dockerfile`, ...). Dependency, VCS and virtual environment folders are
+ * skipped, symlinks are not followed and the walk stops after
+ * {@link MAX_SCANNED_FILES} files.
+ */
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/** Upper bound for very large workspaces; enough to see every language in use. */
+export const MAX_SCANNED_FILES = 50000;
+
+/** Folder names that never tell anything about the project's own languages. */
+const SKIPPED_FOLDERS = new Set(['.git', '.hg', '.svn', 'node_modules', 'bower_components', '.venv', 'venv', '__pycache__', '.tox', '.gradle', '.idea']);
+
+export interface WorkspaceScan {
+    /** Forward-slash paths relative to the workspace folder. */
+    files: string[];
+    /** Whether the walk stopped at {@link MAX_SCANNED_FILES}. */
+    truncated: boolean;
+}
+
+/** Whether a workspace-relative path lies in a folder the scan skips. */
+export function isSkippedPath(relPath: string): boolean {
+    return relPath.split(/[\\/]/).some(segment => SKIPPED_FOLDERS.has(segment));
+}
+
+/**
+ * List the files below `workspacePath`.
+ *
+ * @param excludedPaths Absolute folders to leave out, such as the rules folder.
+ */
+export async function scanWorkspace(workspacePath: string, excludedPaths: string[] = []): Promise<WorkspaceScan> {
+    const excluded = new Set(excludedPaths.map(p => path.resolve(p)));
+    const files: string[] = [];
+    let truncated = false;
+
+    // Breadth-first, so a truncated scan still covers the top of every folder
+    const queue: { dir: string; relDir: string }[] = [{ dir: workspacePath, relDir: '' }];
+    while (queue.length > 0 && !truncated) {
+        const { dir, relDir } = queue.shift()!;
+        let entries;
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch {
+            continue; // unreadable or removed during the scan
+        }
+
+        for (const entry of entries) {
+            const fullPath = path.join(dir, entry.name);
+            const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (!SKIPPED_FOLDERS.has(entry.name) && !excluded.has(path.resolve(fullPath))) {
+                    queue.push({ dir: fullPath, relDir: relPath });
+                }
+            } else if (entry.isFile()) {
+                if (files.length >= MAX_SCANNED_FILES) {
+                    truncated = true;
+                    break;
+                }
+                files.push(relPath);
+            }
+        }
+    }
+
+    return { files, truncated };
+}